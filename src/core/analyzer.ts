@@ -1,5 +1,5 @@
-import { BufferGeometry, Vector3 } from 'three'
-import type { BoundingBox } from './types'
+import { Box3, BufferGeometry, Vector3 } from 'three'
+import type { BoundingBox, ThreeMFSliceStack } from './types'
 
 /**
  * Calculate volume of a BufferGeometry using the signed-tetrahedron method.
@@ -39,14 +39,51 @@ function signedVolumeOfTriangle(p1: Vector3, p2: Vector3, p3: Vector3): number {
   return p1.dot(p2.cross(p3)) / 6.0
 }
 
+/**
+ * Calculate volume of a Slice extension stack — each layer's outline area
+ * times its thickness. Holes wind opposite to their outline, so summing the
+ * signed polygon areas subtracts them.
+ * @returns Volume in cm³ (assumes model units are mm), before any build transform.
+ */
+export function calculateSliceStackVolume(stack: ThreeMFSliceStack): number {
+  let volume = 0
+  let zBottom = stack.zBottom
+
+  for (const slice of stack.slices) {
+    const v = slice.vertices
+    const vertexCount = v.length / 2
+    let twiceArea = 0
+    for (const polygon of slice.polygons) {
+      for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i]
+        const b = polygon[(i + 1) % polygon.length]
+        if (a >= vertexCount || b >= vertexCount) continue
+        twiceArea += v[a * 2] * v[b * 2 + 1] - v[b * 2] * v[a * 2 + 1]
+      }
+    }
+    volume += (Math.abs(twiceArea) / 2) * Math.max(0, slice.zTop - zBottom)
+    zBottom = slice.zTop
+  }
+
+  // mm³ → cm³
+  return volume / 1000
+}
+
 /**
  * Calculate bounding-box dimensions.
+ *
+ * Pass an array to measure an assembly — the result is the size of the box
+ * enclosing every geometry, not the largest individual part.
  * @returns { x, y, z } in mm.
  */
-export function calculateBoundingBox(geometry: BufferGeometry): BoundingBox {
-  geometry.computeBoundingBox()
-  const box = geometry.boundingBox
-  if (!box) throw new Error('Failed to compute bounding box')
+export function calculateBoundingBox(geometry: BufferGeometry | BufferGeometry[]): BoundingBox {
+  const box = new Box3()
+  for (const g of Array.isArray(geometry) ? geometry : [geometry]) {
+    g.computeBoundingBox()
+    if (!g.boundingBox) throw new Error('Failed to compute bounding box')
+    box.union(g.boundingBox)
+  }
+  if (box.isEmpty()) throw new Error('Failed to compute bounding box')
   const size = new Vector3()
   box.getSize(size)
   return {
@@ -0,0 +1,234 @@
+/**
+ * Displacement extension — turns a `<d:displacementmesh>` into an ordinary
+ * triangle mesh for preview and volume.
+ *
+ * Every displaced triangle is split into `n × n` triangles, and each new
+ * vertex moves along the interpolated `<d:normvector>` by the height sampled
+ * from the `<d:displacement2d>` map. `n` is the same for the whole object, so
+ * neighbouring triangles split their shared edge at the same points. A
+ * displaced vertex lands at `factor × (offset + height × value)`, with
+ * `value` the map channel (0–1).
+ *
+ * Grids are not welded to their neighbours: where adjacent triangles disagree
+ * about the displacement of a shared edge (a UV seam, or a displaced triangle
+ * next to a flat one) the preview shows a crack.
+ *
+ * @packageDocumentation
+ */
+
+import type { TextureTileStyle } from './types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A `<d:displacement2d>` height map, decoded to the channel it displaces by. */
+export interface DisplacementMap {
+  width: number
+  height: number
+  /** Channel values (0–1), top row first. */
+  values: Float32Array
+  tileStyleU: TextureTileStyle
+  tileStyleV: TextureTileStyle
+  /** `nearest` samples the closest texel; anything else interpolates bilinearly. */
+  filter: 'auto' | 'linear' | 'nearest'
+}
+
+/** A `<d:disp2dgroup>` with its map and `<d:normvectorgroup>` resolved. */
+export interface DisplacementGroup {
+  map: DisplacementMap
+  /** Displacement directions, x/y/z per `<d:normvector>`. */
+  normals: Float32Array
+  /** Displacement at a map value of 1, in model units (`height`). */
+  height: number
+  /** Displacement at a map value of 0, in model units (`offset`). */
+  offset: number
+  /** `u`, `v`, normal index and factor (`f`) per `<d:disp2dcoord>`. */
+  coords: Float32Array
+}
+
+/** Per-triangle displacement references of a mesh, as read from its `<d:triangles>`. */
+export interface TriangleDisplacement {
+  /** `did` per triangle, `-1` for flat triangles. */
+  dids: Int32Array
+  /** `d1`/`d2`/`d3`, three per triangle; `d2`/`d3` default to `d1`. */
+  dindices: Int32Array
+  groups: Map<number, DisplacementGroup>
+}
+
+export interface DisplacedMesh {
+  vertices: Float32Array
+  indices: Uint32Array
+  /** Source triangle of each output triangle, for carrying colours across. */
+  triangleSources: Uint32Array
+  /** Splits per edge of each displaced triangle. */
+  segments: number
+}
+
+// ---------------------------------------------------------------------------
+// Displacement
+// ---------------------------------------------------------------------------
+
+/** Upper bound on the triangles one object's displaced triangles are split into. */
+export const MAX_DISPLACED_TRIANGLES = 2_000_000
+const MAX_SEGMENTS = 64
+
+/**
+ * Subdivide and displace the triangles that reference a displacement group,
+ * aiming for edges no longer than `edgeLength` (model units). Flat triangles
+ * are kept as they are; of the original vertices only those they use are
+ * kept, so bounds follow the displaced surface. Returns `undefined` when no
+ * triangle is displaced.
+ */
+export function displaceMesh(
+  vertices: Float32Array,
+  indices: Uint32Array,
+  displacement: TriangleDisplacement,
+  edgeLength: number,
+): DisplacedMesh | undefined {
+  const { dids, dindices, groups } = displacement
+  const triCount = indices.length / 3
+  const triGroups: (DisplacementGroup | undefined)[] = new Array(triCount)
+
+  let displacedCount = 0
+  let longestEdge = 0
+  for (let t = 0; t < triCount; t++) {
+    const group = dids[t] >= 0 ? groups.get(dids[t]) : undefined
+    if (!group || dindices[t * 3] < 0) continue
+    triGroups[t] = group
+    displacedCount++
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t * 3 + e] * 3
+      const b = indices[t * 3 + ((e + 1) % 3)] * 3
+      const dx = vertices[a] - vertices[b],
+        dy = vertices[a + 1] - vertices[b + 1],
+        dz = vertices[a + 2] - vertices[b + 2]
+      longestEdge = Math.max(longestEdge, Math.sqrt(dx * dx + dy * dy + dz * dz))
+    }
+  }
+  if (displacedCount === 0) return undefined
+
+  const wanted = edgeLength > 0 ? Math.ceil(longestEdge / edgeLength) : 1
+  const affordable = Math.floor(Math.sqrt(MAX_DISPLACED_TRIANGLES / displacedCount))
+  const n = Math.max(1, Math.min(wanted, affordable, MAX_SEGMENTS))
+  const gridVertices = ((n + 1) * (n + 2)) / 2
+  // Index of grid point (i, j) — i steps towards the second corner, j towards the third
+  const rowStart = (j: number) => j * (n + 1) - (j * (j - 1)) / 2
+
+  // Original vertices move over only when a flat triangle uses them
+  const vertexMap = new Int32Array(vertices.length / 3).fill(-1)
+  let keptVertices = 0
+  for (let t = 0; t < triCount; t++) {
+    if (triGroups[t]) continue
+    for (let c = 0; c < 3; c++) {
+      const v = indices[t * 3 + c]
+      if (vertexMap[v] < 0) vertexMap[v] = keptVertices++
+    }
+  }
+
+  const outVertices = new Float32Array((keptVertices + displacedCount * gridVertices) * 3)
+  for (let v = 0; v < vertexMap.length; v++) {
+    if (vertexMap[v] >= 0) outVertices.set(vertices.subarray(v * 3, v * 3 + 3), vertexMap[v] * 3)
+  }
+  const outTriCount = triCount - displacedCount + displacedCount * n * n
+  const outIndices = new Uint32Array(outTriCount * 3)
+  const triangleSources = new Uint32Array(outTriCount)
+
+  const corner = new Float32Array(3 * 9) // per corner: position, normal, u, v, factor
+  let nextVertex = keptVertices
+  let tri = 0
+
+  for (let t = 0; t < triCount; t++) {
+    const group = triGroups[t]
+    if (!group) {
+      for (let c = 0; c < 3; c++) outIndices[tri * 3 + c] = vertexMap[indices[t * 3 + c]]
+      triangleSources[tri++] = t
+      continue
+    }
+
+    const d1 = dindices[t * 3]
+    for (let c = 0; c < 3; c++) {
+      const v = indices[t * 3 + c] * 3
+      const d = dindices[t * 3 + c] >= 0 ? dindices[t * 3 + c] : d1
+      const nv = (group.coords[d * 4 + 2] || 0) * 3
+      corner.set(
+        [
+          vertices[v], vertices[v + 1], vertices[v + 2],
+          group.normals[nv] ?? 0, group.normals[nv + 1] ?? 0, group.normals[nv + 2] ?? 0,
+          group.coords[d * 4] ?? 0, group.coords[d * 4 + 1] ?? 0, group.coords[d * 4 + 3] ?? 1,
+        ],
+        c * 9,
+      )
+    }
+
+    const base = nextVertex
+    for (let j = 0; j <= n; j++) {
+      for (let i = 0; i <= n - j; i++) {
+        const w1 = i / n,
+          w2 = j / n,
+          w0 = 1 - w1 - w2
+        const at = (k: number) => w0 * corner[k] + w1 * corner[9 + k] + w2 * corner[18 + k]
+        let nx = at(3),
+          ny = at(4),
+          nz = at(5)
+        const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1
+        nx /= length
+        ny /= length
+        nz /= length
+        const value = sampleDisplacementMap(group.map, at(6), at(7))
+        const offset = at(8) * (group.offset + group.height * value)
+        const o = nextVertex++ * 3
+        outVertices[o] = at(0) + nx * offset
+        outVertices[o + 1] = at(1) + ny * offset
+        outVertices[o + 2] = at(2) + nz * offset
+      }
+    }
+
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n - j; i++) {
+        const a = base + rowStart(j) + i
+        const c = base + rowStart(j + 1) + i
+        outIndices.set([a, a + 1, c], tri * 3)
+        triangleSources[tri++] = t
+        if (i < n - j - 1) {
+          outIndices.set([a + 1, c + 1, c], tri * 3)
+          triangleSources[tri++] = t
+        }
+      }
+    }
+  }
+
+  return { vertices: outVertices, indices: outIndices, triangleSources, segments: n }
+}
+
+/**
+ * Map value at (`u`, `v`) — `v = 0` is the bottom row, as for 3MF textures.
+ * Outside 0–1 the tile styles apply; `none` reads as `0`.
+ */
+export function sampleDisplacementMap(map: DisplacementMap, u: number, v: number): number {
+  if ((map.tileStyleU === 'none' && (u < 0 || u > 1)) || (map.tileStyleV === 'none' && (v < 0 || v > 1))) return 0
+  const x = u * map.width - 0.5
+  const y = (1 - v) * map.height - 0.5
+  if (map.filter === 'nearest') return texel(map, Math.round(x), Math.round(y))
+
+  const x0 = Math.floor(x),
+    y0 = Math.floor(y)
+  const fx = x - x0,
+    fy = y - y0
+  const top = texel(map, x0, y0) * (1 - fx) + texel(map, x0 + 1, y0) * fx
+  const bottom = texel(map, x0, y0 + 1) * (1 - fx) + texel(map, x0 + 1, y0 + 1) * fx
+  return top * (1 - fy) + bottom * fy
+}
+
+function texel(map: DisplacementMap, x: number, y: number): number {
+  return map.values[tileIndex(y, map.height, map.tileStyleV) * map.width + tileIndex(x, map.width, map.tileStyleU)]
+}
+
+function tileIndex(i: number, size: number, style: TextureTileStyle): number {
+  if (style === 'wrap') return ((i % size) + size) % size
+  if (style === 'mirror') {
+    const m = ((i % (size * 2)) + size * 2) % (size * 2)
+    return m < size ? m : size * 2 - 1 - m
+  }
+  return Math.min(size - 1, Math.max(0, i))
+}
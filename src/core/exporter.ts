@@ -3,7 +3,8 @@
  *
  * ★ DESIGN PRINCIPLE: surgical, field-specific string replacements only.
  *   No DOM parsing / re-serialization. No JSON parse / stringify.
- *   Only the exact color hex values inside known color fields are touched.
+ *   Only the exact color hex values inside known color fields are touched,
+ *   plus `pid`/`p1` on the triangles of recoloured triangle sets.
  *   Every other byte of the original file is preserved exactly as-is.
  *   Safe for production 3D printing workflows.
  *
@@ -11,7 +12,8 @@
  */
 
 import JSZip from 'jszip'
-import type { MaterialSlot, ColorOption } from './types'
+import type { MaterialSlot, ColorOption, ThreeMFSource } from './types'
+import { isNameEnd, readAttributes } from './xml'
 
 // ---------------------------------------------------------------------------
 // Color helpers
@@ -48,6 +50,19 @@ function resolveToHex(color: string, colorOptions?: ColorOption[]): string {
   return hex ? hex.toUpperCase() : '#808080'
 }
 
+/**
+ * The replacement value for a slot: `#RRGGBB`, or `#RRGGBBAA` when the slot's
+ * `opacity` differs from the one the file gives it (`fileOpacity`), which
+ * then overrides the file's alpha bytes. An unchanged opacity adds no alpha,
+ * so every value keeps its own alpha byte, or its lack of one.
+ */
+function slotReplacement(slot: MaterialSlot, colorOptions?: ColorOption[]): string {
+  const hex = resolveToHex(slot.selectedColor, colorOptions)
+  if (slot.opacity === undefined || slot.opacity === (slot.fileOpacity ?? 1)) return hex
+  const alpha = Math.round(Math.min(1, Math.max(0, slot.opacity)) * 255)
+  return hex + alpha.toString(16).padStart(2, '0').toUpperCase()
+}
+
 /** Normalize a color string to uppercase #RRGGBB (stripping alpha). */
 function normalizeColor(color: string): string {
   if (!color || color.trim() === '') return '#808080'
@@ -71,11 +86,30 @@ function hexPattern(hex6: string): RegExp {
   )
 }
 
-/** Replace a hex color in a string, preserving any alpha suffix. */
+/** Replace a hex color in a string, preserving any alpha suffix the replacement doesn't change. */
 function replaceHex(text: string, oldHex: string, newHex: string): string {
-  return text.replace(hexPattern(oldHex), (_match, alpha) => {
-    return newHex + (alpha || '')
-  })
+  return text.replace(hexPattern(oldHex), (match) => replaceColorValue(match, newHex))
+}
+
+/**
+ * Rewrite one color value (`#RRGGBB` / `#RRGGBBAA`, `#` optional) to
+ * `replacement` (see {@link slotReplacement}). The original alpha bytes are
+ * kept unless the replacement carries a different alpha; an opaque `FF` is
+ * never appended to a value that had none. A value whose color and alpha are
+ * both unchanged is returned exactly as written.
+ */
+function replaceColorValue(originalVal: string, replacement: string): string {
+  const trimmed = originalVal.trim()
+  const withHash = trimmed.startsWith('#') ? trimmed : '#' + trimmed
+  const oldAlpha = withHash.length === 9 ? withHash.slice(7) : ''
+  const newAlpha = replacement.slice(7)
+  const hex = replacement.slice(0, 7)
+
+  let alpha = oldAlpha
+  if (newAlpha && (oldAlpha ? parseInt(oldAlpha, 16) !== parseInt(newAlpha, 16) : newAlpha !== 'FF')) alpha = newAlpha
+
+  if (hex === withHash.slice(0, 7).toUpperCase() && alpha === oldAlpha) return originalVal
+  return hex + alpha
 }
 
 // ---------------------------------------------------------------------------
@@ -207,10 +241,10 @@ function buildModelRemap(
 
     if (!slot) continue
 
-    const newHex = resolveToHex(slot.selectedColor, colorOptions)
+    const newHex = slotReplacement(slot, colorOptions)
     const slotNorm = normalizeColor(slot.id)
 
-    // Only add if this slot's color was actually changed
+    // Only add if this slot's color (or opacity) was actually changed
     if (slotNorm === newHex) continue
 
     // Add the XML basematerials color to the remap if it's not already there
@@ -234,7 +268,7 @@ export interface Export3MFOptions {
   /**
    * The original .3MF file. Used as the base — only color values are changed.
    */
-  originalFile: File | Blob | ArrayBuffer
+  originalFile: ThreeMFSource
   /**
    * The current material slots with the user's color selections.
    */
@@ -244,6 +278,11 @@ export interface Export3MFOptions {
    * Defaults to the built-in color map.
    */
   colorOptions?: ColorOption[]
+  /**
+   * Colour overrides by triangle set name (hex or a `colorOptions` name).
+   * Every set with that name gets the colour as per-triangle `pid`/`p1`.
+   */
+  triangleSetColors?: Record<string, string>
   /**
    * Output filename (without extension). Default: original filename + "_modified".
    */
@@ -272,18 +311,18 @@ export interface Export3MFOptions {
  * ```
  */
 export async function export3MF(options: Export3MFOptions): Promise<Blob> {
-  const { originalFile, materialSlots, colorOptions } = options
+  const { originalFile, materialSlots, colorOptions, triangleSetColors = {} } = options
 
   const arrayBuffer =
-    originalFile instanceof ArrayBuffer
+    originalFile instanceof ArrayBuffer || originalFile instanceof Uint8Array
       ? originalFile
-      : await (originalFile as Blob).arrayBuffer()
+      : await originalFile.arrayBuffer()
 
   const zip = new JSZip()
   const zipContent = await zip.loadAsync(arrayBuffer)
 
-  // Build color remap: original (slot.id) → new hex.
-  // Only entries where the color actually changed.
+  // Build color remap: original (slot.id) → new hex (#RRGGBBAA when the slot
+  // sets an opacity). Only entries where the color or opacity may have changed.
   const colorRemap = new Map<string, string>()
   for (const slot of materialSlots) {
     // Skip non-hex slot IDs (e.g. "filament_1") — these can't be
@@ -291,19 +330,27 @@ export async function export3MF(options: Export3MFOptions): Promise<Blob> {
     if (!slot.id.startsWith('#')) continue
 
     const originalNorm = normalizeColor(slot.id)
-    const newHex = resolveToHex(slot.selectedColor, colorOptions)
+    const newHex = slotReplacement(slot, colorOptions)
     if (originalNorm !== newHex) {
       colorRemap.set(originalNorm, newHex)
     }
   }
 
-  if (colorRemap.size === 0) {
-    // Nothing changed — return the original file byte-for-byte.
-    return new Blob([arrayBuffer], {
-      type: 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml',
-    })
+  const setColors = new Map<string, string>()
+  for (const [name, color] of Object.entries(triangleSetColors)) {
+    setColors.set(name, resolveToHex(color, colorOptions))
   }
 
+  // Nothing changed — return the original file byte-for-byte.
+  const unchanged = () =>
+    new Blob([arrayBuffer as BlobPart], { type: 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml' })
+
+  if (colorRemap.size === 0 && setColors.size === 0) return unchanged()
+
+  // Slots that only restate the file's own opacity match every value exactly;
+  // if no file ends up different, skip re-packaging.
+  let patchedFiles = 0
+
   // -----------------------------------------------------------------------
   // Extract config filament colors for cross-referencing.
   // The parser may derive slot IDs from config colors, but the model XML
@@ -319,7 +366,8 @@ export async function export3MF(options: Export3MFOptions): Promise<Blob> {
   // -----------------------------------------------------------------------
   // 1. Patch .model XML files
   //    Only touches displaycolor="..." on <base> elements
-  //    and color="..." on <color> elements.
+  //    and color="..." on <color> elements, then gives the triangles of
+  //    recoloured triangle sets their own pid/p1.
   // -----------------------------------------------------------------------
   const modelFiles = Object.keys(zipContent.files).filter(
     (f) => f.endsWith('.model') && f.startsWith('3D/'),
@@ -341,9 +389,11 @@ export async function export3MF(options: Export3MFOptions): Promise<Blob> {
       comprehensiveRemap = new Map([...comprehensiveRemap, ...modelRemap])
     }
 
-    const patched = patchModelXmlColors(xml, modelRemap)
+    // Set colours go in last so the slot remap can't rewrite their bases
+    const patched = patchTriangleSetColors(patchModelXmlColors(xml, modelRemap), setColors)
     if (patched !== xml) {
       zipContent.file(modelPath, patched)
+      patchedFiles++
     }
   }
 
@@ -363,6 +413,7 @@ export async function export3MF(options: Export3MFOptions): Promise<Blob> {
       const patched = patchProjectSettingsColors(content, comprehensiveRemap)
       if (patched !== content) {
         zipContent.file(configPath, patched)
+        patchedFiles++
       }
     } catch {
       /* leave file untouched */
@@ -380,6 +431,7 @@ export async function export3MF(options: Export3MFOptions): Promise<Blob> {
       const patched = patchSliceInfoColors(content, comprehensiveRemap)
       if (patched !== content) {
         zipContent.file('Metadata/slice_info.config', patched)
+        patchedFiles++
       }
     } catch {
       /* leave file untouched */
@@ -402,12 +454,15 @@ export async function export3MF(options: Export3MFOptions): Promise<Blob> {
       const patched = patchPrusaSlicerColors(content, comprehensiveRemap)
       if (patched !== content) {
         zipContent.file(configPath, patched)
+        patchedFiles++
       }
     } catch {
       /* leave file untouched */
     }
   }
 
+  if (patchedFiles === 0) return unchanged()
+
   // -----------------------------------------------------------------------
   // 5. Re-package ZIP — let JSZip preserve original compression per file.
   // -----------------------------------------------------------------------
@@ -478,24 +533,102 @@ function patchAttrInTag(
       const replacement = remap.get(normalized)
       if (!replacement) return attrMatch
 
-      const newVal = preserveAlpha(colorVal, replacement)
-      return prefix + newVal + closingQuote
+      return prefix + replaceColorValue(colorVal, replacement) + closingQuote
     })
 
     return tagOpen + newRest
   })
 }
 
-/** Given original color value "colorVal" and new hex, preserve alpha suffix. */
-function preserveAlpha(originalVal: string, newHex: string): string {
-  const trimmed = originalVal.trim()
-  // Check if original had alpha (9 chars with #, or 8 chars without)
-  const withHash = trimmed.startsWith('#') ? trimmed : '#' + trimmed
-  if (withHash.length === 9) {
-    // Preserve the original alpha characters
-    return newHex + withHash.slice(7)
+// ---------------------------------------------------------------------------
+// 1b. Model XML: triangle-set colours as per-triangle pid/p1
+//
+//    The override colours go into one new <basematerials> group (a base per
+//    set name) at the top of <resources>. Each member <triangle> of a set
+//    gets pid/p1 pointing at it; its p2/p3 are dropped so the whole face
+//    takes the colour. Triangles outside the sets are untouched.
+// ---------------------------------------------------------------------------
+
+function patchTriangleSetColors(xml: string, setColors: Map<string, string>): string {
+  if (setColors.size === 0 || xml.indexOf('triangleset') === -1) return xml
+
+  const resources = /<([\w.-]+:)?resources\b[^>]*>/.exec(xml)
+  if (!resources) return xml
+
+  const groupId = nextResourceId(xml)
+  const bases: string[] = [] // set names, in p1 order
+
+  const patched = xml.replace(/<([\w.-]+:)?object\b[\s\S]*?<\/\1object>/g, (objectXml) => {
+    const members = triangleSetMembers(objectXml, setColors)
+    if (members.size === 0) return objectXml
+
+    let t = 0
+    return objectXml.replace(/<(?:[\w.-]+:)?triangle\b[^>]*>/g, (tag) => {
+      const name = members.get(t++)
+      if (name === undefined) return tag
+      let index = bases.indexOf(name)
+      if (index === -1) index = bases.push(name) - 1
+      return tag
+        .replace(/\s+(?:pid|p1|p2|p3)\s*=\s*(["'])[^"']*\1/g, '')
+        .replace(/(\s*\/?>)$/, ` pid="${groupId}" p1="${index}"$1`)
+    })
+  })
+  if (bases.length === 0) return xml
+
+  // <resources> precedes every object, so its position is unchanged
+  const prefix = resources[1] ?? ''
+  const group =
+    `<${prefix}basematerials id="${groupId}">` +
+    bases.map((name) => `<${prefix}base name="${escapeAttribute(name)}" displaycolor="${setColors.get(name)}"/>`)
+      .join('') +
+    `</${prefix}basematerials>`
+  const insertAt = resources.index + resources[0].length
+  return patched.slice(0, insertAt) + group + patched.slice(insertAt)
+}
+
+/**
+ * Triangle index → set name for the sets in one `<object>` that have an
+ * override colour. A triangle in several such sets takes the last one.
+ */
+function triangleSetMembers(objectXml: string, setColors: Map<string, string>): Map<number, string> {
+  const members = new Map<number, string>()
+  const triCount = objectXml.match(/<(?:[\w.-]+:)?triangle\b/g)?.length ?? 0
+  const setPattern = /<([\w.-]+:)?triangleset\b[^>]*?(?:\/>|>([\s\S]*?)<\/\1triangleset>)/g
+  let set
+  while ((set = setPattern.exec(objectXml)) !== null) {
+    const name = tagAttributes(set[0]).get('name') ?? ''
+    if (!setColors.has(name) || !set[2]) continue
+
+    for (const ref of set[2].match(/<(?:[\w.-]+:)?ref(?:range)?\b[^>]*>/g) ?? []) {
+      const attrs = tagAttributes(ref)
+      const first = parseInt(attrs.get('index') ?? attrs.get('startindex') ?? '')
+      const last = Math.min(parseInt(attrs.get('index') ?? attrs.get('endindex') ?? ''), triCount - 1)
+      for (let t = first; t <= last; t++) members.set(t, name)
+    }
   }
-  return newHex
+  return members
+}
+
+/** Attributes of a start tag, keyed by name as written, with entities decoded. */
+function tagAttributes(tag: string): Map<string, string> {
+  const attrs = new Map<string, string>()
+  let nameEnd = 1
+  while (nameEnd < tag.length && !isNameEnd(tag.charCodeAt(nameEnd))) nameEnd++
+  readAttributes(tag, nameEnd, (name, value) => attrs.set(name, value))
+  return attrs
+}
+
+/** One past the highest resource `id` in a model part — resources share a single ID space. */
+function nextResourceId(xml: string): number {
+  let max = 0
+  const idPattern = /\sid\s*=\s*["'](\d+)["']/g
+  let match
+  while ((match = idPattern.exec(xml)) !== null) max = Math.max(max, parseInt(match[1]))
+  return max + 1
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,278 @@
+/**
+ * G-code reading for sliced packages (`.gcode.3mf`) — the print statistics of
+ * the header block, and the extrusion moves for a toolpath preview.
+ *
+ * Moves are followed through `G0`/`G1`, `G2`/`G3` arcs in the XY plane (`I`/`J`
+ * centre offsets), `G90`/`G91` (XYZ) and `M82`/`M83` (E) positioning modes,
+ * `G92` position resets and `T<n>` tool changes. A move counts as an extrusion
+ * when it moves in XY and pushes filament; travel moves are left out.
+ *
+ * `parse3MF` reads only the header; toolpaths are built on request
+ * (`loadGcodeToolpath`) for the plate being previewed.
+ *
+ * @packageDocumentation
+ */
+
+import type { BoundingBox, GcodeHeader, GcodeToolpath, ThreeMFPlateGcode } from './types'
+
+// ---------------------------------------------------------------------------
+// Header
+// ---------------------------------------------------------------------------
+
+/** How far into a G-code file `parse3MF` looks for the header block (bytes). */
+export const GCODE_HEADER_BYTES = 64 * 1024
+
+/** Read a slicer duration (`1d 2h 3m 4s`, any subset) as seconds. */
+function parseDuration(value: string): number | undefined {
+  const units: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 }
+  let seconds = 0
+  let matched = false
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)\s*([dhms])/gi)) {
+    seconds += parseFloat(amount) * units[unit.toLowerCase()]
+    matched = true
+  }
+  return matched ? seconds : undefined
+}
+
+function parseNumberList(value: string | undefined): number[] | undefined {
+  if (!value) return undefined
+  const numbers = value.split(',').map((v) => parseFloat(v))
+  return numbers.every(Number.isFinite) ? numbers : undefined
+}
+
+/**
+ * Parse the header block of Bambu Studio / OrcaSlicer G-code. Lines hold one
+ * or more `; key: value` pairs separated by `;`; units in brackets stay part
+ * of the `raw` key (`total filament weight [g]`). Returns just an empty `raw`
+ * map for G-code without a header block.
+ */
+export function parseGcodeHeader(text: string): GcodeHeader {
+  const header: GcodeHeader = { raw: {} }
+  const start = text.indexOf('HEADER_BLOCK_START')
+  const end = start >= 0 ? text.indexOf('HEADER_BLOCK_END', start) : -1
+  if (start < 0 || end < 0) return header
+
+  const byName = new Map<string, string>()
+  for (const line of text.slice(text.indexOf('\n', start) + 1, end).split(/\r?\n/)) {
+    for (const part of line.split(';')) {
+      const entry = part.trim()
+      if (!entry) continue
+      const generated = entry.match(/^generated by (.+?)(?: on .*)?$/i)
+      if (generated) {
+        header.generator = generated[1]
+        continue
+      }
+      const colon = entry.indexOf(':')
+      if (colon < 0) {
+        // Older files name the slicer on a line of its own
+        header.generator ??= entry
+        continue
+      }
+      const key = entry.slice(0, colon).trim()
+      const value = entry.slice(colon + 1).trim()
+      header.raw[key] = value
+      byName.set(key.replace(/\s*\[.*?\]/g, '').toLowerCase(), value)
+    }
+  }
+
+  const number = (name: string) => {
+    const value = parseFloat(byName.get(name) ?? '')
+    return Number.isFinite(value) ? value : undefined
+  }
+  const estimated = byName.get('total estimated time')
+  const model = byName.get('model printing time')
+  header.printTime = estimated ? parseDuration(estimated) : undefined
+  header.modelPrintTime = model ? parseDuration(model) : undefined
+  header.layerCount = number('total layer number')
+  header.filamentLengths = parseNumberList(byName.get('total filament length'))
+  header.filamentWeights = parseNumberList(byName.get('total filament weight'))
+  header.maxZ = number('max_z_height')
+  return header
+}
+
+// ---------------------------------------------------------------------------
+// Toolpath
+// ---------------------------------------------------------------------------
+
+/** Upper bound on the segments a toolpath keeps (24 MB of positions). */
+export const MAX_TOOLPATH_SEGMENTS = 1_000_000
+const INITIAL_SEGMENTS = 65_536
+/** Arcs are split into chords of about this length (mm). */
+const ARC_CHORD_LENGTH = 0.5
+const MAX_ARC_CHORDS = 64
+
+/** Receives one extrusion segment and the tool printing it; returning `false` stops the walk. */
+type SegmentVisitor = (x0: number, y0: number, z0: number, x1: number, y1: number, z1: number, tool: number) => boolean
+
+/** Follow the moves of a G-code file, passing every extrusion segment (arcs as chords) to `visit`. */
+function walkExtrusions(text: string, visit: SegmentVisitor): void {
+  let stopped = false
+  let x = 0,
+    y = 0,
+    z = 0,
+    e = 0
+  let absolute = true
+  let absoluteE = true
+  let tool = 0
+
+  const words = new Map<string, number>()
+  for (let pos = 0; pos < text.length && !stopped; ) {
+    let lineEnd = text.indexOf('\n', pos)
+    if (lineEnd < 0) lineEnd = text.length
+    // Look for the comment within the line only, or every uncommented line scans ahead to the next `;`
+    const line = text.slice(pos, lineEnd)
+    const comment = line.indexOf(';')
+    const code = comment >= 0 ? line.slice(0, comment) : line
+    pos = lineEnd + 1
+
+    words.clear()
+    let command = ''
+    for (const [, letter, value] of code.matchAll(/([A-Za-z])\s*([-+]?(?:\d+\.?\d*|\.\d+))?/g)) {
+      const key = letter.toUpperCase()
+      if (!command) command = key + (value ?? '')
+      else words.set(key, value === undefined ? 0 : parseFloat(value))
+    }
+    if (!command) continue
+
+    if (command[0] === 'T') {
+      const index = parseInt(command.slice(1))
+      if (index >= 0 && index < 255) tool = index
+      continue
+    }
+
+    switch (command) {
+      case 'G0':
+      case 'G1':
+      case 'G00':
+      case 'G01':
+      case 'G2':
+      case 'G3':
+      case 'G02':
+      case 'G03': {
+        const tx = words.has('X') ? (absolute ? 0 : x) + words.get('X')! : x
+        const ty = words.has('Y') ? (absolute ? 0 : y) + words.get('Y')! : y
+        const tz = words.has('Z') ? (absolute ? 0 : z) + words.get('Z')! : z
+        let extruded = 0
+        if (words.has('E')) {
+          extruded = absoluteE ? words.get('E')! - e : words.get('E')!
+          e = absoluteE ? words.get('E')! : e + extruded
+        }
+        const arc = command.endsWith('2') || command.endsWith('3')
+        const extruding = extruded > 0 && (arc || tx !== x || ty !== y)
+
+        if (extruding && arc && (words.has('I') || words.has('J'))) {
+          const cx = x + (words.get('I') ?? 0)
+          const cy = y + (words.get('J') ?? 0)
+          const radius = Math.hypot(x - cx, y - cy)
+          const start = Math.atan2(y - cy, x - cx)
+          let sweep = Math.atan2(ty - cy, tx - cx) - start
+          const clockwise = command.endsWith('2')
+          if (clockwise && sweep >= 0) sweep -= Math.PI * 2
+          if (!clockwise && sweep <= 0) sweep += Math.PI * 2
+          const chords = Math.min(MAX_ARC_CHORDS, Math.max(1, Math.ceil((Math.abs(sweep) * radius) / ARC_CHORD_LENGTH)))
+          let px = x,
+            py = y,
+            pz = z
+          for (let i = 1; i <= chords && !stopped; i++) {
+            const angle = start + (sweep * i) / chords
+            const nx = i === chords ? tx : cx + Math.cos(angle) * radius
+            const ny = i === chords ? ty : cy + Math.sin(angle) * radius
+            const nz = z + ((tz - z) * i) / chords
+            stopped = !visit(px, py, pz, nx, ny, nz, tool)
+            px = nx
+            py = ny
+            pz = nz
+          }
+        } else if (extruding) {
+          stopped = !visit(x, y, z, tx, ty, tz, tool)
+        }
+        x = tx
+        y = ty
+        z = tz
+        break
+      }
+      case 'G28':
+        if (words.size === 0 || words.has('X')) x = 0
+        if (words.size === 0 || words.has('Y')) y = 0
+        if (words.size === 0 || words.has('Z')) z = 0
+        break
+      case 'G90':
+        absolute = true
+        break
+      case 'G91':
+        absolute = false
+        break
+      case 'M82':
+        absoluteE = true
+        break
+      case 'M83':
+        absoluteE = false
+        break
+      case 'G92':
+        x = words.get('X') ?? x
+        y = words.get('Y') ?? y
+        z = words.get('Z') ?? z
+        e = words.get('E') ?? e
+        break
+    }
+  }
+}
+
+/** Parse the extrusion moves of a G-code file into line segments. */
+export function parseGcodeToolpath(text: string): GcodeToolpath {
+  let positions = new Float32Array(INITIAL_SEGMENTS * 6)
+  let tools = new Uint8Array(INITIAL_SEGMENTS)
+  let count = 0
+  let truncated = false
+
+  const push: SegmentVisitor = (x0, y0, z0, x1, y1, z1, tool) => {
+    if (count === positions.length / 6) {
+      if (count >= MAX_TOOLPATH_SEGMENTS) {
+        truncated = true
+        return false
+      }
+      const capacity = Math.min(count * 2, MAX_TOOLPATH_SEGMENTS)
+      const grownPositions = new Float32Array(capacity * 6)
+      grownPositions.set(positions)
+      positions = grownPositions
+      const grownTools = new Uint8Array(capacity)
+      grownTools.set(tools)
+      tools = grownTools
+    }
+    positions.set([x0, y0, z0, x1, y1, z1], count * 6)
+    tools[count++] = tool
+    return true
+  }
+
+  walkExtrusions(text, push)
+  return { positions: positions.slice(0, count * 6), tools: tools.slice(0, count), truncated }
+}
+
+/**
+ * Read the toolpath of a plate's G-code (`Plate.gcode`). `parse3MF` leaves
+ * this out, since a toolpath can take tens of megabytes; call it for the
+ * plate being previewed.
+ */
+export async function loadGcodeToolpath(gcode: ThreeMFPlateGcode): Promise<GcodeToolpath> {
+  return parseGcodeToolpath(await gcode.file.text())
+}
+
+/**
+ * Size of the box enclosing the extrusion moves of a G-code file, in mm —
+ * measured on the way, without keeping the segments.
+ */
+export function measureGcodeToolpath(text: string): BoundingBox {
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  walkExtrusions(text, (x0, y0, z0, x1, y1, z1) => {
+    min[0] = Math.min(min[0], x0, x1)
+    min[1] = Math.min(min[1], y0, y1)
+    min[2] = Math.min(min[2], z0, z1)
+    max[0] = Math.max(max[0], x0, x1)
+    max[1] = Math.max(max[1], y0, y1)
+    max[2] = Math.max(max[2], z0, z1)
+    return true
+  })
+  if (min[0] === Infinity) return { x: 0, y: 0, z: 0 }
+  return { x: max[0] - min[0], y: max[1] - min[1], z: max[2] - min[2] }
+}
@@ -15,18 +15,49 @@
  * @packageDocumentation
  */
 
-export { parse3MF, ThreeMFParseError } from './parser'
-export { calculateVolume, calculateBoundingBox } from './analyzer'
+export { parse3MF, ThreeMFParseError, ThreeMFEncryptedError } from './parser'
+export type { Parse3MFOptions } from './parser'
+export { parse3MFInWorker } from './workerClient'
+export type { Parse3MFInWorkerOptions } from './workerClient'
+export { calculateVolume, calculateSliceStackVolume, calculateBoundingBox } from './analyzer'
 export { export3MF, download3MF } from './exporter'
+export { loadGcodeToolpath, parseGcodeToolpath } from './gcode'
 export type { Export3MFOptions } from './exporter'
 
 // Re-export all public types
 export type {
   ParsedThreeMF,
   MaterialSlot,
+  MaterialMixture,
+  FilamentProfile,
+  MixtureComponent,
   Plate,
   BoundingBox,
   ThreeMFMetadata,
-  ParsedTriangle,
+  ModelUnit,
+  ThreeMFSource,
+  ThreeMFTexture,
+  ThreeMFPlateImages,
+  PlateInstance,
+  PlateFiles,
+  PlateSliceInfo,
+  PlateFilamentUsage,
+  ThreeMFPlateGcode,
+  GcodeHeader,
+  GcodeToolpath,
+  ThreeMFSlice,
+  ThreeMFSliceStack,
+  ThreeMFTriangleSet,
+  ThreeMFObjectType,
+  ThreeMFBuildItem,
+  ThreeMFEncryptedResource,
+  ThreeMFKeystoreConsumer,
+  ThreeMFAccessRight,
+  ThreeMFDecryptCallback,
+  TextureTileStyle,
+  ParseStage,
+  ParseProgress,
+  ParseDiagnostic,
+  DiagnosticLevel,
   ParsedGeomObject,
 } from './types'
@@ -0,0 +1,212 @@
+/**
+ * Beam Lattice tessellation — turns `<b:beamlattice>` beams and balls into
+ * closed triangle meshes, so lattices render, place and count towards volume
+ * like any other mesh.
+ *
+ * Beams become tapered tubes with {@link TUBE_SEGMENTS} sides. `butt` caps are
+ * flat; `sphere` and `hemisphere` caps are closed with a cone of height `r`.
+ * Balls become low-poly spheres. Tubes and balls meeting at a node overlap,
+ * so the volume of a lattice is an approximation (slightly high at dense nodes,
+ * slightly low for the faceted cross-sections).
+ *
+ * @packageDocumentation
+ */
+
+import { BEAM_CAPS, type BallData, type BeamCap, type BeamData } from './mesh'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Ball placement (`ballmode`): no balls, only the listed `<ball>`s, or one at every beam node. */
+export type BallMode = 'none' | 'mixed' | 'all'
+
+/** A parsed `<beamlattice>`: the element's defaults plus its bulk-read beams and balls. */
+export interface BeamLattice {
+  beams: BeamData
+  balls?: BallData
+  /** Default beam radius (`radius`). */
+  radius: number
+  /** Default cap for beam ends without `cap1` / `cap2`. */
+  cap: BeamCap
+  ballMode: BallMode
+  /** Default ball radius (`ballradius`). */
+  ballRadius: number
+}
+
+export interface LatticeMesh {
+  /** Flat x/y/z positions of the generated vertices. */
+  vertices: Float32Array
+  /** Triangle indices, offset by the `firstVertex` passed to {@link tessellateBeamLattice}. */
+  indices: Uint32Array
+  /** Beam index per generated triangle, `-1` for balls. */
+  triangleBeams: Int32Array
+}
+
+// ---------------------------------------------------------------------------
+// Tessellation
+// ---------------------------------------------------------------------------
+
+export const TUBE_SEGMENTS = 8
+/** Latitude bands per ball (including the two polar fans). */
+const BALL_BANDS = 4
+
+const BALL_VERTICES = TUBE_SEGMENTS * (BALL_BANDS - 1) + 2
+const BALL_TRIANGLES = TUBE_SEGMENTS * 2 * (BALL_BANDS - 1)
+
+/**
+ * Tessellate a lattice whose beams index into `positions` (the mesh's own
+ * vertices). Generated vertices are numbered from `firstVertex`, so the
+ * result can be appended to the mesh as-is.
+ */
+export function tessellateBeamLattice(positions: Float32Array, lattice: BeamLattice, firstVertex: number): LatticeMesh {
+  const vertexCount = positions.length / 3
+  const { beams } = lattice
+  const beamCount = beams.indices.length / 2
+
+  // Balls: explicit ones first (they override the default radius), then one per node for ballmode="all"
+  const ballRadii = new Map<number, number>()
+  if (lattice.ballMode !== 'none' && lattice.balls) {
+    const { indices, radii } = lattice.balls
+    for (let b = 0; b < indices.length; b++) {
+      ballRadii.set(indices[b], Number.isNaN(radii[b]) ? lattice.ballRadius : radii[b])
+    }
+  }
+  if (lattice.ballMode === 'all') {
+    for (const v of beams.indices) if (!ballRadii.has(v)) ballRadii.set(v, lattice.ballRadius)
+  }
+  for (const [v, r] of ballRadii) if (v >= vertexCount || !(r > 0)) ballRadii.delete(v)
+
+  // Upper bound: sides + two capped ends per beam
+  const maxBeamVertices = TUBE_SEGMENTS * 2 + 2
+  const maxBeamTriangles = TUBE_SEGMENTS * 4
+  const out = {
+    vertices: new Float32Array((beamCount * maxBeamVertices + ballRadii.size * BALL_VERTICES) * 3),
+    indices: new Uint32Array((beamCount * maxBeamTriangles + ballRadii.size * BALL_TRIANGLES) * 3),
+    triangleBeams: new Int32Array(beamCount * maxBeamTriangles + ballRadii.size * BALL_TRIANGLES),
+    vertex: 0,
+    triangle: 0,
+  }
+  const addVertex = (x: number, y: number, z: number): number => {
+    out.vertices[out.vertex * 3] = x
+    out.vertices[out.vertex * 3 + 1] = y
+    out.vertices[out.vertex * 3 + 2] = z
+    return firstVertex + out.vertex++
+  }
+  const addTriangle = (a: number, b: number, c: number, beam: number): void => {
+    out.indices[out.triangle * 3] = a
+    out.indices[out.triangle * 3 + 1] = b
+    out.indices[out.triangle * 3 + 2] = c
+    out.triangleBeams[out.triangle++] = beam
+  }
+
+  const ringA: number[] = new Array(TUBE_SEGMENTS)
+  const ringB: number[] = new Array(TUBE_SEGMENTS)
+  const cos = Array.from({ length: TUBE_SEGMENTS }, (_, i) => Math.cos((i / TUBE_SEGMENTS) * Math.PI * 2))
+  const sin = Array.from({ length: TUBE_SEGMENTS }, (_, i) => Math.sin((i / TUBE_SEGMENTS) * Math.PI * 2))
+
+  for (let beam = 0; beam < beamCount; beam++) {
+    const va = beams.indices[beam * 2]
+    const vb = beams.indices[beam * 2 + 1]
+    if (va >= vertexCount || vb >= vertexCount || va === vb) continue
+
+    const ra = Number.isNaN(beams.radii[beam * 2]) ? lattice.radius : beams.radii[beam * 2]
+    const rb = Number.isNaN(beams.radii[beam * 2 + 1]) ? ra : beams.radii[beam * 2 + 1]
+    if (!(ra > 0) && !(rb > 0)) continue
+
+    const ax = positions[va * 3]
+    const ay = positions[va * 3 + 1]
+    const az = positions[va * 3 + 2]
+    const bx = positions[vb * 3]
+    const by = positions[vb * 3 + 1]
+    const bz = positions[vb * 3 + 2]
+    const length = Math.hypot(bx - ax, by - ay, bz - az)
+    if (length === 0) continue
+    const dx = (bx - ax) / length
+    const dy = (by - ay) / length
+    const dz = (bz - az) / length
+
+    // Right-handed frame (u, v, d): u ⟂ d, v = d × u
+    const [hx, hy, hz] = Math.abs(dx) < 0.9 ? [1, 0, 0] : [0, 1, 0]
+    const cx = dy * hz - dz * hy
+    const cy = dz * hx - dx * hz
+    const cz = dx * hy - dy * hx
+    const ul = Math.hypot(cx, cy, cz)
+    const ux = cx / ul
+    const uy = cy / ul
+    const uz = cz / ul
+    const vx = dy * uz - dz * uy
+    const vy = dz * ux - dx * uz
+    const vz = dx * uy - dy * ux
+
+    for (let i = 0; i < TUBE_SEGMENTS; i++) {
+      const ox = cos[i] * ux + sin[i] * vx
+      const oy = cos[i] * uy + sin[i] * vy
+      const oz = cos[i] * uz + sin[i] * vz
+      ringA[i] = addVertex(ax + ox * ra, ay + oy * ra, az + oz * ra)
+      ringB[i] = addVertex(bx + ox * rb, by + oy * rb, bz + oz * rb)
+    }
+    for (let i = 0; i < TUBE_SEGMENTS; i++) {
+      const j = (i + 1) % TUBE_SEGMENTS
+      addTriangle(ringA[i], ringA[j], ringB[j], beam)
+      addTriangle(ringA[i], ringB[j], ringB[i], beam)
+    }
+
+    // End caps — a fan around the axis point, or a cone tip pushed out by the radius
+    const capA = BEAM_CAPS[beams.caps[beam * 2] - 1] ?? lattice.cap
+    const capB = BEAM_CAPS[beams.caps[beam * 2 + 1] - 1] ?? lattice.cap
+    const tipA = capA === 'butt' ? 0 : ra
+    const tipB = capB === 'butt' ? 0 : rb
+    const centerA = addVertex(ax - dx * tipA, ay - dy * tipA, az - dz * tipA)
+    const centerB = addVertex(bx + dx * tipB, by + dy * tipB, bz + dz * tipB)
+    for (let i = 0; i < TUBE_SEGMENTS; i++) {
+      const j = (i + 1) % TUBE_SEGMENTS
+      addTriangle(centerA, ringA[j], ringA[i], beam)
+      addTriangle(centerB, ringB[i], ringB[j], beam)
+    }
+  }
+
+  for (const [v, r] of ballRadii) {
+    addBall(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2], r, addVertex, addTriangle, cos, sin)
+  }
+
+  return {
+    vertices: out.vertices.slice(0, out.vertex * 3),
+    indices: out.indices.slice(0, out.triangle * 3),
+    triangleBeams: out.triangleBeams.slice(0, out.triangle),
+  }
+}
+
+/** A UV sphere: polar fans plus quad bands, wound outward. */
+function addBall(
+  cx: number,
+  cy: number,
+  cz: number,
+  r: number,
+  addVertex: (x: number, y: number, z: number) => number,
+  addTriangle: (a: number, b: number, c: number, beam: number) => void,
+  cos: number[],
+  sin: number[],
+): void {
+  const top = addVertex(cx, cy, cz + r)
+  const rings: number[][] = []
+  for (let band = 1; band < BALL_BANDS; band++) {
+    const polar = (band / BALL_BANDS) * Math.PI
+    const ringRadius = Math.sin(polar) * r
+    const z = cz + Math.cos(polar) * r
+    rings.push(cos.map((c, i) => addVertex(cx + c * ringRadius, cy + sin[i] * ringRadius, z)))
+  }
+  const bottom = addVertex(cx, cy, cz - r)
+
+  for (let i = 0; i < TUBE_SEGMENTS; i++) {
+    const j = (i + 1) % TUBE_SEGMENTS
+    addTriangle(top, rings[0][i], rings[0][j], -1)
+    for (let band = 0; band < rings.length - 1; band++) {
+      const upper = rings[band]
+      const lower = rings[band + 1]
+      addTriangle(upper[i], lower[i], lower[j], -1)
+      addTriangle(upper[i], lower[j], upper[j], -1)
+    }
+    addTriangle(bottom, rings[rings.length - 1][j], rings[rings.length - 1][i], -1)
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * MD5 digest, for checking the `.md5` sidecars slicers write next to
+ * embedded G-code. Web Crypto has no MD5, so this is a plain implementation
+ * (RFC 1321) that works the same in browsers, workers and Node.js.
+ *
+ * @packageDocumentation
+ */
+
+/** Per-round left-rotation amounts. */
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4,
+  11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+
+/** `floor(abs(sin(i + 1)) × 2³²)` */
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0)
+
+/** Lower-case hex MD5 digest of `bytes`. */
+export function md5Hex(bytes: Uint8Array): string {
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the bit length (little-endian)
+  const paddedLength = (((bytes.length + 8) >> 6) + 1) << 6
+  const data = new Uint8Array(paddedLength)
+  data.set(bytes)
+  data[bytes.length] = 0x80
+  const view = new DataView(data.buffer)
+  view.setUint32(paddedLength - 8, (bytes.length * 8) >>> 0, true)
+  view.setUint32(paddedLength - 4, Math.floor(bytes.length / 0x20000000), true)
+
+  let a0 = 0x67452301,
+    b0 = 0xefcdab89,
+    c0 = 0x98badcfe,
+    d0 = 0x10325476
+  const words = new Uint32Array(16)
+
+  for (let block = 0; block < paddedLength; block += 64) {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(block + i * 4, true)
+    let a = a0,
+      b = b0,
+      c = c0,
+      d = d0
+    for (let i = 0; i < 64; i++) {
+      let f: number, g: number
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+      const sum = (a + f + CONSTANTS[i] + words[g]) | 0
+      a = d
+      d = c
+      c = b
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0
+    }
+    a0 = (a0 + a) | 0
+    b0 = (b0 + b) | 0
+    c0 = (c0 + c) | 0
+    d0 = (d0 + d) | 0
+  }
+
+  const digest = new DataView(new ArrayBuffer(16))
+  ;[a0, b0, c0, d0].forEach((word, i) => digest.setUint32(i * 4, word, true))
+  let hex = ''
+  for (let i = 0; i < 16; i++) hex += digest.getUint8(i).toString(16).padStart(2, '0')
+  return hex
+}
@@ -0,0 +1,443 @@
+/**
+ * Streaming readers for `<vertices>` and `<triangles>` — the bulk of every
+ * model part, `<d:displacementmesh>`es included — the Beam Lattice `<beams>` /
+ * `<balls>` lists, the Slice extension's `<polygon>` segments and
+ * `<triangleset>` references. They plug into `parseXml()` as element readers,
+ * so mesh content is written straight into typed arrays instead of allocating
+ * a node per vertex and triangle. This keeps multi-hundred-MB project files
+ * within a sane memory budget.
+ *
+ * @packageDocumentation
+ */
+
+import { readAttributes, localPart, isNameEnd, type ElementReader } from './xml'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Triangle data read from a `<triangles>` element. */
+export interface TriangleData {
+  /** `v1`/`v2`/`v3` vertex indices, three per triangle. */
+  indices: Uint32Array
+  /** Triangle `pid`, `-1` when absent. Only allocated once some triangle has a `pid`. */
+  pids?: Int32Array
+  /** `p1`/`p2`/`p3`, three per triangle, `-1` when absent. Allocated together with `pids`. */
+  pindices?: Int32Array
+  /** Raw `paint_color` / `mmu_segmentation` attribute, by triangle index. */
+  paint?: Map<number, string>
+  /** Displacement `did`, `-1` when absent. Only allocated once some triangle has a `did` or `d1`. */
+  dids?: Int32Array
+  /** Displacement `d1`/`d2`/`d3`, three per triangle, `-1` when absent. Allocated together with `dids`. */
+  dindices?: Int32Array
+}
+
+/** Beam end cap styles (Beam Lattice `cap`, `cap1`, `cap2`). */
+export type BeamCap = 'sphere' | 'hemisphere' | 'butt'
+
+/** Cap codes used in {@link BeamData.caps}: index + 1, `0` when absent. */
+export const BEAM_CAPS: readonly BeamCap[] = ['sphere', 'hemisphere', 'butt']
+
+/** Beam data read from a Beam Lattice `<beams>` element. */
+export interface BeamData {
+  /** `v1`/`v2` vertex indices, two per beam. */
+  indices: Uint32Array
+  /** `r1`/`r2`, two per beam, `NaN` when absent. */
+  radii: Float32Array
+  /** `cap1`/`cap2` as {@link BEAM_CAPS} codes, two per beam. */
+  caps: Uint8Array
+  /** Beam `pid`, `-1` when absent. Only allocated once some beam has a `pid` or `p1`. */
+  pids?: Int32Array
+  /** Beam `p1`, `-1` when absent. Allocated together with `pids`. */
+  pindices?: Int32Array
+}
+
+/** Ball data read from a Beam Lattice `<balls>` element. */
+export interface BallData {
+  /** `vindex` per ball. */
+  indices: Uint32Array
+  /** `r` per ball, `NaN` when absent. */
+  radii: Float32Array
+}
+
+type TypedArray = Float32Array | Uint32Array | Int32Array | Uint8Array
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Return `arr`, or a copy at least `needed` long (growing by doubling). */
+function grow<T extends TypedArray>(arr: T, needed: number, fill?: number): T {
+  if (needed <= arr.length) return arr
+  const next = new (arr.constructor as new (length: number) => T)(Math.max(needed, arr.length * 2))
+  next.set(arr)
+  if (fill !== undefined) next.fill(fill, arr.length)
+  return next
+}
+
+/** Trim a grown buffer to its used length. */
+function trim<T extends TypedArray>(arr: T, used: number): T {
+  return (used === arr.length ? arr : arr.slice(0, used)) as T
+}
+
+/** Rough element count for a bulk block, from the distance to its first end tag. */
+function estimateCount(text: string, start: number, charsPerChild: number): number {
+  const close = text.indexOf('</', start)
+  const span = (close === -1 ? text.length : close) - start
+  return Math.max(64, Math.ceil(span / charsPerChild))
+}
+
+function noAttribute(): void {}
+
+/**
+ * Walk the content of a bulk element, calling `onChild` at each `<childName`
+ * start tag (with the index where its attributes begin, and the matched
+ * name when several are given). Other elements are stepped over. Returns the
+ * index just past the parent's end tag.
+ */
+function scanChildren(
+  text: string,
+  start: number,
+  childName: string | readonly string[],
+  onChild: (attrStart: number, name: string) => { end: number; selfClosing: boolean },
+): number {
+  const len = text.length
+  let pos = start
+  let depth = 0
+
+  while (pos < len) {
+    const lt = text.indexOf('<', pos)
+    if (lt === -1) return len
+    const next = text.charCodeAt(lt + 1)
+
+    if (next === 47) {
+      // </…>
+      const gt = text.indexOf('>', lt)
+      const end = gt === -1 ? len : gt + 1
+      if (depth === 0) return end
+      depth--
+      pos = end
+      continue
+    }
+    if (next === 33 || next === 63) {
+      // <!-- … --> / <? … ?>
+      const close = next === 33 ? text.indexOf('-->', lt) : text.indexOf('?>', lt)
+      pos = close === -1 ? len : close + (next === 33 ? 3 : 2)
+      continue
+    }
+
+    let j = lt + 1
+    while (j < len && !isNameEnd(text.charCodeAt(j))) j++
+    const name = localPart(text.slice(lt + 1, j))
+    const matches = typeof childName === 'string' ? name === childName : childName.includes(name)
+    const tag = matches ? onChild(j, name) : readAttributes(text, j, noAttribute)
+    if (!tag.selfClosing) depth++
+    pos = tag.end
+  }
+
+  return len
+}
+
+// ---------------------------------------------------------------------------
+// Readers
+// ---------------------------------------------------------------------------
+
+/** `<vertices>` → flat `Float32Array` of x/y/z. */
+export const readVertices: ElementReader = (text, start) => {
+  let positions = new Float32Array(estimateCount(text, start, 40) * 3)
+  let count = 0
+  let x = 0,
+    y = 0,
+    z = 0
+
+  const onAttribute = (name: string, value: string) => {
+    if (name === 'x') x = parseFloat(value)
+    else if (name === 'y') y = parseFloat(value)
+    else if (name === 'z') z = parseFloat(value)
+  }
+
+  const end = scanChildren(text, start, 'vertex', (attrStart) => {
+    x = y = z = 0
+    const tag = readAttributes(text, attrStart, onAttribute)
+    positions = grow(positions, count + 3)
+    positions[count++] = x || 0
+    positions[count++] = y || 0
+    positions[count++] = z || 0
+    return tag
+  })
+
+  return { end, value: trim(positions, count) }
+}
+
+/** `<triangles>` → {@link TriangleData}. */
+export const readTriangles: ElementReader = (text, start) => {
+  let indices = new Uint32Array(estimateCount(text, start, 40) * 3)
+  let pids: Int32Array | undefined
+  let pindices: Int32Array | undefined
+  let paint: Map<number, string> | undefined
+  let dids: Int32Array | undefined
+  let dindices: Int32Array | undefined
+  let tri = 0
+  let v1 = 0,
+    v2 = 0,
+    v3 = 0,
+    pid = -1,
+    p1 = -1,
+    p2 = -1,
+    p3 = -1,
+    did = -1,
+    d1 = -1,
+    d2 = -1,
+    d3 = -1
+  let paintAttr = ''
+
+  const onAttribute = (name: string, value: string) => {
+    switch (name) {
+      case 'v1': v1 = parseInt(value) || 0; break
+      case 'v2': v2 = parseInt(value) || 0; break
+      case 'v3': v3 = parseInt(value) || 0; break
+      case 'pid': pid = parseIndex(value); break
+      case 'p1': p1 = parseIndex(value); break
+      case 'p2': p2 = parseIndex(value); break
+      case 'p3': p3 = parseIndex(value); break
+      case 'did': did = parseIndex(value); break
+      case 'd1': d1 = parseIndex(value); break
+      case 'd2': d2 = parseIndex(value); break
+      case 'd3': d3 = parseIndex(value); break
+      default: {
+        // BambuStudio paint_color / PrusaSlicer (slic3rpe:)mmu_segmentation,
+        // with or without a namespace prefix
+        if (!paintAttr && value) {
+          const lower = name.toLowerCase()
+          if (lower.includes('paint_color') || lower.includes('mmu_segmentation')) paintAttr = value
+        }
+      }
+    }
+  }
+
+  const end = scanChildren(text, start, 'triangle', (attrStart) => {
+    v1 = v2 = v3 = 0
+    pid = p1 = p2 = p3 = -1
+    did = d1 = d2 = d3 = -1
+    paintAttr = ''
+    const tag = readAttributes(text, attrStart, onAttribute)
+
+    indices = grow(indices, tri * 3 + 3)
+    indices[tri * 3] = v1
+    indices[tri * 3 + 1] = v2
+    indices[tri * 3 + 2] = v3
+
+    if (pid >= 0 || p1 >= 0 || pids) {
+      if (!pids || !pindices) {
+        pids = new Int32Array(indices.length / 3).fill(-1)
+        pindices = new Int32Array(indices.length).fill(-1)
+      }
+      pids = grow(pids, tri + 1, -1)
+      pindices = grow(pindices, tri * 3 + 3, -1)
+      pids[tri] = pid
+      pindices[tri * 3] = p1
+      pindices[tri * 3 + 1] = p2
+      pindices[tri * 3 + 2] = p3
+    }
+
+    if (did >= 0 || d1 >= 0 || dids) {
+      if (!dids || !dindices) {
+        dids = new Int32Array(indices.length / 3).fill(-1)
+        dindices = new Int32Array(indices.length).fill(-1)
+      }
+      dids = grow(dids, tri + 1, -1)
+      dindices = grow(dindices, tri * 3 + 3, -1)
+      dids[tri] = did
+      dindices[tri * 3] = d1
+      dindices[tri * 3 + 1] = d2
+      dindices[tri * 3 + 2] = d3
+    }
+
+    if (paintAttr) (paint ??= new Map()).set(tri, paintAttr)
+    tri++
+    return tag
+  })
+
+  const data: TriangleData = { indices: trim(indices, tri * 3) }
+  if (pids && pindices) {
+    data.pids = trim(pids, tri)
+    data.pindices = trim(pindices, tri * 3)
+  }
+  if (dids && dindices) {
+    data.dids = trim(dids, tri)
+    data.dindices = trim(dindices, tri * 3)
+  }
+  if (paint) data.paint = paint
+  return { end, value: data }
+}
+
+/** `<beams>` → {@link BeamData}. */
+export const readBeams: ElementReader = (text, start) => {
+  const initial = estimateCount(text, start, 40)
+  let indices = new Uint32Array(initial * 2)
+  let radii = new Float32Array(initial * 2)
+  let caps = new Uint8Array(initial * 2)
+  let pids: Int32Array | undefined
+  let pindices: Int32Array | undefined
+  let beam = 0
+  let v1 = 0,
+    v2 = 0,
+    r1 = NaN,
+    r2 = NaN,
+    cap1 = 0,
+    cap2 = 0,
+    pid = -1,
+    p1 = -1
+
+  const onAttribute = (name: string, value: string) => {
+    switch (name) {
+      case 'v1': v1 = parseInt(value) || 0; break
+      case 'v2': v2 = parseInt(value) || 0; break
+      case 'r1': r1 = parseFloat(value); break
+      case 'r2': r2 = parseFloat(value); break
+      case 'cap1': cap1 = BEAM_CAPS.indexOf(value as BeamCap) + 1; break
+      case 'cap2': cap2 = BEAM_CAPS.indexOf(value as BeamCap) + 1; break
+      case 'pid': pid = parseIndex(value); break
+      case 'p1': p1 = parseIndex(value); break
+    }
+  }
+
+  const end = scanChildren(text, start, 'beam', (attrStart) => {
+    v1 = v2 = cap1 = cap2 = 0
+    r1 = r2 = NaN
+    pid = p1 = -1
+    const tag = readAttributes(text, attrStart, onAttribute)
+
+    indices = grow(indices, beam * 2 + 2)
+    radii = grow(radii, beam * 2 + 2)
+    caps = grow(caps, beam * 2 + 2)
+    indices[beam * 2] = v1
+    indices[beam * 2 + 1] = v2
+    radii[beam * 2] = r1
+    radii[beam * 2 + 1] = r2
+    caps[beam * 2] = cap1
+    caps[beam * 2 + 1] = cap2
+
+    if (pid >= 0 || p1 >= 0 || pids) {
+      pids = grow(pids ?? new Int32Array(indices.length / 2).fill(-1), beam + 1, -1)
+      pindices = grow(pindices ?? new Int32Array(indices.length / 2).fill(-1), beam + 1, -1)
+      pids[beam] = pid
+      pindices[beam] = p1
+    }
+
+    beam++
+    return tag
+  })
+
+  const data: BeamData = {
+    indices: trim(indices, beam * 2),
+    radii: trim(radii, beam * 2),
+    caps: trim(caps, beam * 2),
+  }
+  if (pids && pindices) {
+    data.pids = trim(pids, beam)
+    data.pindices = trim(pindices, beam)
+  }
+  return { end, value: data }
+}
+
+/** `<balls>` → {@link BallData}. */
+export const readBalls: ElementReader = (text, start) => {
+  const initial = estimateCount(text, start, 30)
+  let indices = new Uint32Array(initial)
+  let radii = new Float32Array(initial)
+  let ball = 0
+  let vindex = 0,
+    r = NaN
+
+  const onAttribute = (name: string, value: string) => {
+    if (name === 'vindex') vindex = parseInt(value) || 0
+    else if (name === 'r') r = parseFloat(value)
+  }
+
+  const end = scanChildren(text, start, 'ball', (attrStart) => {
+    vindex = 0
+    r = NaN
+    const tag = readAttributes(text, attrStart, onAttribute)
+    indices = grow(indices, ball + 1)
+    radii = grow(radii, ball + 1)
+    indices[ball] = vindex
+    radii[ball] = r
+    ball++
+    return tag
+  })
+
+  const data: BallData = { indices: trim(indices, ball), radii: trim(radii, ball) }
+  return { end, value: data }
+}
+
+/** Slice `<polygon>` → `Uint32Array` of each `<segment>`'s `v2` (`startv` stays an attribute). */
+export const readPolygonSegments: ElementReader = (text, start) => {
+  let indices = new Uint32Array(estimateCount(text, start, 20))
+  let count = 0
+  let v2 = 0
+
+  const onAttribute = (name: string, value: string) => {
+    if (name === 'v2') v2 = parseInt(value) || 0
+  }
+
+  const end = scanChildren(text, start, 'segment', (attrStart) => {
+    v2 = 0
+    const tag = readAttributes(text, attrStart, onAttribute)
+    indices = grow(indices, count + 1)
+    indices[count++] = v2
+    return tag
+  })
+
+  return { end, value: trim(indices, count) }
+}
+
+/**
+ * `<triangleset>` → `Uint32Array` of inclusive first/last triangle pairs, one
+ * per `<ref>` (first = last) or `<refrange>`. Ranges are expanded by the
+ * caller, which knows the triangle count (`name` / `identifier` stay attributes).
+ */
+export const readTriangleSetRefs: ElementReader = (text, start) => {
+  let ranges = new Uint32Array(estimateCount(text, start, 20) * 2)
+  let count = 0
+  let index = -1,
+    startIndex = -1,
+    endIndex = -1
+
+  const onAttribute = (name: string, value: string) => {
+    if (name === 'index') index = parseIndex(value)
+    else if (name === 'startindex') startIndex = parseIndex(value)
+    else if (name === 'endindex') endIndex = parseIndex(value)
+  }
+
+  const end = scanChildren(text, start, ['ref', 'refrange'], (attrStart, name) => {
+    index = startIndex = endIndex = -1
+    const tag = readAttributes(text, attrStart, onAttribute)
+    const first = name === 'ref' ? index : startIndex
+    const last = name === 'ref' ? index : endIndex
+    if (first >= 0 && last >= first) {
+      ranges = grow(ranges, count * 2 + 2)
+      ranges[count * 2] = first
+      ranges[count * 2 + 1] = last
+      count++
+    }
+    return tag
+  })
+
+  return { end, value: trim(ranges, count * 2) }
+}
+
+function parseIndex(value: string): number {
+  const n = parseInt(value)
+  return n >= 0 ? n : -1
+}
+
+/** Element readers for `parseXml()` that stream mesh content into typed arrays. */
+export const MESH_READERS: Record<string, ElementReader> = {
+  vertices: readVertices,
+  triangles: readTriangles,
+  beams: readBeams,
+  balls: readBalls,
+  polygon: readPolygonSegments,
+  triangleset: readTriangleSetRefs,
+}
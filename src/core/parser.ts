@@ -9,14 +9,53 @@
  *  5. Bambu Studio: filament count from JSON array lengths (e.g. 3-entry arrays = 3 filaments)
  *  6. PrusaSlicer: volume triangle ranges + per-volume extruder assignments
  *  7. Component-level pid/pindex from main model applied to external objects
- *  8. External object ID remapping with composite map fixup
+ *  8. Object IDs scoped per model part: `object_N.model` parts keep N, clashes are renumbered
+ *
+ * Every path that fires, each part that fails to read and each fallback taken
+ * is recorded in `ParsedThreeMF.diagnostics`.
  *
  * @packageDocumentation
  */
 
-import { BufferGeometry, BufferAttribute } from 'three'
-import type { ParsedThreeMF, MaterialSlot, Plate, ParsedTriangle, ParsedGeomObject } from './types'
-import { calculateVolume, calculateBoundingBox } from './analyzer'
+import { BufferGeometry, BufferAttribute, Color, Matrix4 } from 'three'
+import type {
+  ParsedThreeMF,
+  MaterialSlot,
+  Plate,
+  PlateFiles,
+  PlateSliceInfo,
+  PlateFilamentUsage,
+  PlateInstance,
+  ParsedGeomObject,
+  ThreeMFMetadata,
+  BoundingBox,
+  ModelUnit,
+  ThreeMFSource,
+  ThreeMFTexture,
+  ThreeMFPlateImages,
+  ThreeMFSlice,
+  ThreeMFSliceStack,
+  ThreeMFTriangleSet,
+  ThreeMFBuildItem,
+  ThreeMFObjectType,
+  ThreeMFEncryptedResource,
+  ThreeMFKeystoreConsumer,
+  ThreeMFDecryptCallback,
+  TextureTileStyle,
+  ParseStage,
+  ParseDiagnostic,
+  DiagnosticLevel,
+  MaterialMixture,
+  FilamentProfile,
+} from './types'
+import { calculateVolume, calculateSliceStackVolume, calculateBoundingBox } from './analyzer'
+import { parseXml, XmlDocument, XmlElement } from './xml'
+import { MESH_READERS, BEAM_CAPS, type TriangleData, type BeamData, type BallData, type BeamCap } from './mesh'
+import { tessellateBeamLattice, type BallMode, type LatticeMesh } from './lattice'
+import { displaceMesh, type DisplacedMesh, type DisplacementGroup, type DisplacementMap } from './displacement'
+import { inflate, decodePngChannel, type ImageChannel } from './png'
+import { GCODE_HEADER_BYTES, parseGcodeHeader, measureGcodeToolpath } from './gcode'
+import { md5Hex } from './md5'
 import JSZip from 'jszip'
 
 // ---------------------------------------------------------------------------
@@ -31,59 +70,288 @@ export class ThreeMFParseError extends Error {
   }
 }
 
+/**
+ * Thrown for a package with 3MF Secure Content (`Secure/keystore.xml`) when
+ * its encrypted parts can't be opened — no `decrypt` callback was given, or
+ * it failed.
+ */
+export class ThreeMFEncryptedError extends ThreeMFParseError {
+  /** Zip entry paths of the encrypted parts listed in the keystore. */
+  readonly encryptedParts: string[]
+
+  constructor(message: string, encryptedParts: string[]) {
+    super(message)
+    this.name = 'ThreeMFEncryptedError'
+    this.encryptedParts = encryptedParts
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Options
+// ---------------------------------------------------------------------------
+
+export interface Parse3MFOptions {
+  /**
+   * Scale vertices to millimetres when the model declares another `unit`
+   * (inch, centimeter, …). Default: `true`.
+   *
+   * `volume` (cm³) and `boundingBox` (mm) are converted either way.
+   */
+  normalizeUnits?: boolean
+  /**
+   * Called as the parse advances. `fraction` is overall progress (0–1, never
+   * decreasing); `stage` names the step in flight: `unzip`, `model` (main
+   * model XML), `external` (3D/Objects parts), `config` (slicer configs) and
+   * `geometry` (BufferGeometry build).
+   */
+  onProgress?: (stage: ParseStage, fraction: number) => void
+  /**
+   * Cancels the parse. The promise then rejects with `signal.reason`
+   * (a `DOMException` named `AbortError` unless you passed your own).
+   */
+  signal?: AbortSignal
+  /**
+   * Target edge length, in millimetres, when Displacement extension meshes
+   * are subdivided for preview (and volume). Smaller is finer and slower;
+   * each object is capped at about two million displaced triangles.
+   * Default: `0.5`.
+   */
+  displacementResolution?: number
+  /**
+   * Opens Secure Content packages: called once per encrypted part listed in
+   * the keystore, before anything else is read. Without it such packages
+   * reject with {@link ThreeMFEncryptedError}.
+   */
+  decrypt?: ThreeMFDecryptCallback
+}
+
+// ---------------------------------------------------------------------------
+// Progress & Cancellation
+// ---------------------------------------------------------------------------
+
+/** Share of overall progress allotted to each stage. */
+const STAGE_SPANS: Record<ParseStage, [number, number]> = {
+  unzip: [0, 0.15],
+  model: [0.15, 0.45],
+  external: [0.45, 0.7],
+  config: [0.7, 0.85],
+  geometry: [0.85, 1],
+}
+
+type ProgressReporter = (stage: ParseStage, stageFraction: number) => void
+
+/**
+ * Map per-stage fractions onto overall progress. Reports are throttled to
+ * 1% steps so per-chunk callbacks (e.g. from JSZip) don't flood the caller.
+ */
+function createProgressReporter(onProgress?: (stage: ParseStage, fraction: number) => void): ProgressReporter {
+  let lastStage: ParseStage | null = null
+  let last = 0
+  return (stage, stageFraction) => {
+    if (!onProgress) return
+    const [start, end] = STAGE_SPANS[stage]
+    const fraction = Math.max(last, start + (end - start) * Math.min(1, Math.max(0, stageFraction)))
+    if (stage === lastStage && fraction - last < 0.01 && fraction < 1) return
+    lastStage = stage
+    last = fraction
+    onProgress(stage, fraction)
+  }
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw signal.reason ?? new DOMException('The parse was aborted', 'AbortError')
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+function addDiagnostic(
+  diagnostics: ParseDiagnostic[],
+  level: DiagnosticLevel,
+  code: string,
+  message: string,
+  path?: string,
+): void {
+  diagnostics.push(path === undefined ? { level, code, message } : { level, code, message, path })
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
 // ---------------------------------------------------------------------------
 // Internal Types
 // ---------------------------------------------------------------------------
 
 interface PropertyResource {
   id: string
-  type: 'basematerials' | 'colorgroup'
+  type: 'basematerials' | 'colorgroup' | 'texture2dgroup' | 'compositematerials' | 'multiproperties'
+  /** Display colour per property index (blended for composites and multiproperties). */
   colors: string[]
   names?: string[]
+  /** basematerials / colorgroup: alpha (0–1) per property index, when any colour is translucent. */
+  alphas?: number[]
+  /** compositematerials / multiproperties: the mixture behind each colour, if any. */
+  mixtures?: (MaterialMixture | undefined)[]
+  /** texture2dgroup: u/v pairs, two per `<tex2coord>`. */
+  uvs?: Float32Array
+  /** texture2dgroup: the `<texture2d>` it samples. */
+  texture?: TextureResource
+}
+
+/** A `<texture2d>` before its image has been read from the package. */
+type TextureResource = Omit<ThreeMFTexture, 'image'>
+
+/** A `<s:slicestack>` before its `<s:sliceref>`s have been spliced in. */
+interface SliceStackResource {
+  stack: ThreeMFSliceStack
+  refs: { id: string; path?: string }[]
 }
 
 interface BuildItem {
   objectId: number
-  transform?: string
+  /** Model part holding the object (`p:path`), resolved to a zip entry path. */
+  path?: string
+  uuid?: string
+  transform?: Matrix4
 }
 
 interface ComponentRef {
   objectId: number
+  /** Model part holding the object (`p:path`), resolved to a zip entry path. */
   path?: string
   pid?: string
   pindex?: number
+  transform?: Matrix4
+}
+
+/** Displacement groups of a model part, and the preview edge length in its unit. */
+interface DisplacementContext {
+  groups: Map<number, DisplacementGroup>
+  edgeLength: number
+}
+
+/** `[Content_Types].xml`, with extensions and part names lowercased. */
+interface ContentTypes {
+  /** Extension → content type (`<Default>`). */
+  defaults: Map<string, string>
+  /** Part path → content type (`<Override>`). */
+  overrides: Map<string, string>
+}
+
+/** Objects and components of every loaded model part, keyed by {@link partKey}. */
+interface ModelPartIndex {
+  /** Local object IDs per part, in load order (the root model first). */
+  objectIds: Map<string, number[]>
+  /** Production extension `p:UUID` per object. */
+  uuids: Map<string, string>
+  composites: { part: string; objectId: number; components: ComponentRef[] }[]
+  /** Colour from a component's `pid`/`pindex`, for the object it references. */
+  colorOverrides: Map<string, string>
 }
 
 // ---------------------------------------------------------------------------
 // XML Helper
 // ---------------------------------------------------------------------------
 
-function findElements(container: Document | Element, localName: string): Element[] {
-  const found = new Set<Element>()
+/**
+ * All descendants (document order) whose local name matches, ignoring case
+ * and namespace prefix. A document container includes its root element.
+ */
+function findElements(container: XmlDocument | XmlElement, localName: string): XmlElement[] {
+  const found: XmlElement[] = []
   const lowerName = localName.toLowerCase()
 
-  try {
-    container.querySelectorAll(localName).forEach(el => found.add(el))
-  } catch { /* ignore */ }
+  const stack: XmlElement[] =
+    container instanceof XmlDocument
+      ? container.documentElement ? [container.documentElement] : []
+      : [...container.children].reverse()
 
-  const allElements = container.getElementsByTagName('*')
-  for (let i = 0; i < allElements.length; i++) {
-    const elem = allElements[i]
-    const elemLocal = (elem.localName || '').toLowerCase()
-    const tagLower = elem.tagName.toLowerCase()
-    if (elemLocal === lowerName || tagLower === lowerName || tagLower.endsWith(':' + lowerName)) {
-      found.add(elem)
-    }
+  while (stack.length > 0) {
+    const elem = stack.pop()!
+    if (elem.localName.toLowerCase() === lowerName) found.push(elem)
+    for (let i = elem.children.length - 1; i >= 0; i--) stack.push(elem.children[i])
   }
 
-  return Array.from(found)
+  return found
+}
+
+/** Attribute value by local name, whatever its namespace prefix (e.g. `s:slicestackid`). */
+function getAttributeByLocalName(elem: XmlElement, localName: string): string | null {
+  for (const attr of elem.attributes) if (attr.localName === localName) return attr.value
+  return null
+}
+
+/**
+ * Parse a 3MF `transform` attribute ("m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32").
+ *
+ * 3MF uses row vectors (p' = p · M), so the 3×4 matrix is transposed into
+ * Three.js's column-vector layout. Returns `undefined` for missing or
+ * malformed values.
+ */
+function parseTransform(value: string | null): Matrix4 | undefined {
+  if (!value) return undefined
+  const m = value.trim().split(/\s+/).map(Number)
+  if (m.length !== 12 || m.some((n) => !isFinite(n))) return undefined
+  return new Matrix4().set(
+    m[0], m[3], m[6], m[9],
+    m[1], m[4], m[7], m[10],
+    m[2], m[5], m[8], m[11],
+    0, 0, 0, 1,
+  )
+}
+
+const IDENTITY = new Matrix4()
+
+/** Millimetres per model unit (3MF Core `ST_Unit`). */
+const UNIT_TO_MM: Record<ModelUnit, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
 }
 
-function normalizeColor(color: string): string {
+/** Read the `unit` attribute of a `<model>` root. Missing or unknown values mean millimetres. */
+function parseUnit(modelDoc: XmlDocument): ModelUnit {
+  const unit = (modelDoc.documentElement?.getAttribute('unit') || '').trim().toLowerCase()
+  return unit in UNIT_TO_MM ? (unit as ModelUnit) : 'millimeter'
+}
+
+function scaleVertices(obj: ParsedGeomObject, factor: number): void {
+  for (let i = 0; i < obj.vertices.length; i++) obj.vertices[i] *= factor
+  // Stacks can be shared between objects — scale a copy
+  if (obj.sliceStack) {
+    const { id, zBottom, slices } = obj.sliceStack
+    obj.sliceStack = {
+      id,
+      zBottom: zBottom * factor,
+      slices: slices.map((slice) => ({
+        zTop: slice.zTop * factor,
+        vertices: slice.vertices.map((v) => v * factor),
+        polygons: slice.polygons,
+      })),
+    }
+  }
+}
+
+/**
+ * Normalise to uppercase `#RRGGBB`. An alpha byte (`#RRGGBBAA`) is stripped
+ * from the result; if it is below `FF` and `opacities` is given, it is recorded
+ * there (0–1, keyed by the normalised colour) unless that colour already has one.
+ */
+function normalizeColor(color: string, opacities?: Map<string, number>): string {
   if (!color || color.trim() === '') return '#808080'
   let c = color.trim()
   if (!c.startsWith('#')) c = '#' + c
-  if (c.length === 9) c = c.substring(0, 7) // strip alpha
+  if (c.length === 9) {
+    const alpha = parseInt(c.substring(7), 16)
+    c = c.substring(0, 7).toUpperCase()
+    if (opacities && alpha < 255 && !opacities.has(c)) opacities.set(c, alpha / 255)
+    return c
+  }
   return c.toUpperCase()
 }
 
@@ -91,7 +359,10 @@ function normalizeColor(color: string): string {
 // Resource Parsing
 // ---------------------------------------------------------------------------
 
-function parseResources(xmlDoc: Document | Element): Map<string, PropertyResource> {
+function parseResources(
+  xmlDoc: XmlDocument | XmlElement,
+  opacities: Map<string, number>,
+): Map<string, PropertyResource> {
   const resources = new Map<string, PropertyResource>()
 
   for (const bmElem of findElements(xmlDoc, 'basematerials')) {
@@ -99,27 +370,177 @@ function parseResources(xmlDoc: Document | Element): Map<string, PropertyResourc
     if (!id) continue
     const colors: string[] = []
     const names: string[] = []
+    const alphas: number[] = []
     for (const base of findElements(bmElem, 'base')) {
-      colors.push(normalizeColor(base.getAttribute('displaycolor') || base.getAttribute('DisplayColor') || ''))
+      const displayColor = base.getAttribute('displaycolor') || base.getAttribute('DisplayColor') || ''
+      colors.push(normalizeColor(displayColor, opacities))
+      alphas.push(colorAlpha(displayColor))
       names.push(base.getAttribute('name') || base.getAttribute('Name') || '')
     }
-    if (colors.length > 0) resources.set(id, { id, type: 'basematerials', colors, names })
+    if (colors.length > 0) {
+      resources.set(id, { id, type: 'basematerials', colors, names, alphas: translucent(alphas) })
+    }
   }
 
   for (const cgElem of findElements(xmlDoc, 'colorgroup')) {
     const id = cgElem.getAttribute('id') || cgElem.getAttribute('Id') || ''
     if (!id) continue
     const colors: string[] = []
+    const alphas: number[] = []
     for (const colorElem of findElements(cgElem, 'color')) {
       const c = colorElem.getAttribute('color') || colorElem.getAttribute('Color') || ''
-      if (c) colors.push(normalizeColor(c))
+      if (!c) continue
+      colors.push(normalizeColor(c, opacities))
+      alphas.push(colorAlpha(c))
+    }
+    if (colors.length > 0) resources.set(id, { id, type: 'colorgroup', colors, alphas: translucent(alphas) })
+  }
+
+  // 3MF Materials extension: <m:texture2d> images and <m:texture2dgroup> UVs
+  const textures = new Map<string, TextureResource>()
+  for (const texElem of findElements(xmlDoc, 'texture2d')) {
+    const id = texElem.getAttribute('id') || ''
+    const path = texElem.getAttribute('path') || ''
+    if (!id || !path) continue
+    textures.set(id, {
+      path,
+      contentType: texElem.getAttribute('contenttype') || (/\.jpe?g$/i.test(path) ? 'image/jpeg' : 'image/png'),
+      tileStyleU: parseTileStyle(texElem.getAttribute('tilestyleu')),
+      tileStyleV: parseTileStyle(texElem.getAttribute('tilestylev')),
+      filter: (['linear', 'nearest'] as const).find((f) => f === texElem.getAttribute('filter')) ?? 'auto',
+    })
+  }
+
+  for (const groupElem of findElements(xmlDoc, 'texture2dgroup')) {
+    const id = groupElem.getAttribute('id') || ''
+    const texture = textures.get(groupElem.getAttribute('texid') || '')
+    if (!id || !texture) continue
+    const coords = findElements(groupElem, 'tex2coord')
+    const uvs = new Float32Array(coords.length * 2)
+    coords.forEach((coord, i) => {
+      uvs[i * 2] = parseFloat(coord.getAttribute('u') || '0') || 0
+      uvs[i * 2 + 1] = parseFloat(coord.getAttribute('v') || '0') || 0
+    })
+    resources.set(id, { id, type: 'texture2dgroup', colors: [], uvs, texture })
+  }
+
+  // <m:compositematerials>: mixtures of one basematerials group
+  for (const compElem of findElements(xmlDoc, 'compositematerials')) {
+    const id = compElem.getAttribute('id') || ''
+    const base = resources.get(compElem.getAttribute('matid') || '')
+    if (!id || base?.type !== 'basematerials') continue
+    const matIndices = parseNumberList(compElem.getAttribute('matindices'))
+    const colors: string[] = []
+    const mixtures: MaterialMixture[] = []
+    for (const composite of findElements(compElem, 'composite')) {
+      const values = parseNumberList(composite.getAttribute('values'))
+      const total = values.reduce((sum, v) => sum + Math.max(0, v), 0)
+      const components = matIndices
+        .map((matIndex, i) => ({
+          name: base.names?.[matIndex] ?? '',
+          color: base.colors[matIndex] ?? '#808080',
+          ratio: total > 0 ? Math.max(0, values[i] ?? 0) / total : 1 / matIndices.length,
+        }))
+        .filter((c) => c.ratio > 0)
+      mixtures.push({ components })
+      colors.push(blendColors(components))
     }
-    if (colors.length > 0) resources.set(id, { id, type: 'colorgroup', colors })
+    if (colors.length > 0) resources.set(id, { id, type: 'compositematerials', colors, mixtures })
+  }
+
+  // <m:multiproperties>: property layers combined per `blendmethods` — `mix` lays a layer over
+  // those below by its alpha, `multiply` multiplies; the result's alpha is recorded as its opacity
+  for (const multiElem of findElements(xmlDoc, 'multiproperties')) {
+    const id = multiElem.getAttribute('id') || ''
+    const layers = (multiElem.getAttribute('pids') || '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((pid) => resources.get(pid))
+    if (!id || layers.length === 0) continue
+    const blendMethods = (multiElem.getAttribute('blendmethods') || '').split(/\s+/).filter(Boolean)
+    const colors: string[] = []
+    const mixtures: (MaterialMixture | undefined)[] = []
+    for (const multi of findElements(multiElem, 'multi')) {
+      const pindices = parseNumberList(multi.getAttribute('pindices'))
+      const result = new Color(1, 1, 1)
+      const layer = new Color()
+      let alpha = 1
+      let painted = false
+      let mixture: MaterialMixture | undefined
+      layers.forEach((res, i) => {
+        const index = pindices[i] ?? 0
+        const hex = res?.colors[index]
+        if (!hex) return // textures and unresolved layers don't contribute a colour
+        // The composite may sit on any layer, not just the first
+        mixture ??= res!.mixtures?.[index]
+        const layerAlpha = res!.alphas?.[index] ?? 1
+        layer.set(hex)
+        if (!painted) {
+          result.copy(layer)
+          alpha = layerAlpha
+          painted = true
+        } else if (blendMethods[i - 1] === 'multiply') {
+          result.multiply(layer)
+        } else {
+          result.lerp(layer, layerAlpha)
+          alpha = layerAlpha + alpha * (1 - layerAlpha)
+        }
+      })
+      const hex = `#${result.getHexString().toUpperCase()}`
+      if (alpha < 1 && !opacities.has(hex)) opacities.set(hex, alpha)
+      colors.push(hex)
+      mixtures.push(mixture)
+    }
+    if (colors.length > 0) resources.set(id, { id, type: 'multiproperties', colors, mixtures })
   }
 
   return resources
 }
 
+/** Alpha (0–1) of a `#RRGGBBAA` colour; `1` when it has no alpha byte. */
+function colorAlpha(color: string): number {
+  const c = color.trim().replace(/^#/, '')
+  const alpha = c.length === 8 ? parseInt(c.slice(6), 16) : 255
+  return Number.isFinite(alpha) ? alpha / 255 : 1
+}
+
+/** Per-index alphas, or `undefined` when every colour is opaque. */
+function translucent(alphas: number[]): number[] | undefined {
+  return alphas.some((a) => a < 1) ? alphas : undefined
+}
+
+function parseNumberList(value: string | null): number[] {
+  return (value || '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((v) => parseFloat(v))
+}
+
+/** Ratio-weighted average of display colours, in linear space. */
+function blendColors(components: { color: string; ratio: number }[]): string {
+  const result = new Color(0, 0, 0)
+  const part = new Color()
+  for (const c of components) {
+    part.set(c.color).multiplyScalar(c.ratio)
+    result.add(part)
+  }
+  return `#${result.getHexString().toUpperCase()}`
+}
+
+function parseTileStyle(value: string | null): TextureTileStyle {
+  return value === 'mirror' || value === 'clamp' || value === 'none' ? value : 'wrap'
+}
+
+/** Index mixtures by their blended colour, so material slots (keyed by colour) can point back at them. */
+function collectMixtures(resources: Map<string, PropertyResource>, into: Map<string, MaterialMixture>): void {
+  resources.forEach((res) => {
+    res.mixtures?.forEach((mixture, i) => {
+      if (mixture && !into.has(res.colors[i])) into.set(res.colors[i], mixture)
+    })
+  })
+}
+
 function resolveColor(
   pid: string | null | undefined,
   pindex: number,
@@ -137,127 +558,923 @@ function resolveColor(
 // ---------------------------------------------------------------------------
 
 function parseGeometryObjects(
-  xmlDoc: Document | Element,
+  xmlDoc: XmlDocument | XmlElement,
   resources: Map<string, PropertyResource>,
-  defaultColor?: string | null,
+  sliceStacks: Map<string, ThreeMFSliceStack>,
+  displacement: DisplacementContext,
+  defaultColors?: Map<number, string>,
 ): ParsedGeomObject[] {
   const objects: ParsedGeomObject[] = []
 
   for (const objElem of findElements(xmlDoc, 'object')) {
-    const type = objElem.getAttribute('type')
-    if (type && type !== 'model') continue
-
+    const type = parseObjectType(objElem.getAttribute('type'))
     const id = parseInt(objElem.getAttribute('id') || '0')
     const name = objElem.getAttribute('name') || objElem.getAttribute('Name') || `Object ${id}`
 
     const objPid = objElem.getAttribute('pid') || null
     const objPindexStr = objElem.getAttribute('pindex')
     const objPindex = objPindexStr !== null ? parseInt(objPindexStr) : 0
-    const objDefaultColor = resolveColor(objPid, objPindex, resources) || defaultColor || null
-
-    const meshElems = findElements(objElem, 'mesh')
-    if (meshElems.length === 0) continue
-
-    const meshElem = meshElems[0]
-    const vertices: number[] = []
-    for (const v of findElements(meshElem, 'vertex')) {
-      vertices.push(
-        parseFloat(v.getAttribute('x') || '0'),
-        parseFloat(v.getAttribute('y') || '0'),
-        parseFloat(v.getAttribute('z') || '0'),
-      )
+    const objPidNumber = objPid ? parseInt(objPid) : -1
+    const objDefaultColor = resolveColor(objPid, objPindex, resources) || defaultColors?.get(id) || null
+
+    const sliceStack = sliceStacks.get(getAttributeByLocalName(objElem, 'slicestackid') || '')
+    const meshElem = findElements(objElem, 'mesh')[0] ?? findElements(objElem, 'displacementmesh')[0]
+    if (!meshElem && !sliceStack) continue
+
+    // Vertex/triangle content was streamed into typed arrays by MESH_READERS
+    const meshVertices = meshElem && (findElements(meshElem, 'vertices')[0]?.value as Float32Array | undefined)
+    const trianglesElem = meshElem && findElements(meshElem, 'triangles')[0]
+    const triData = trianglesElem?.value as TriangleData | undefined
+
+    // Beam Lattice: tubes and balls are appended to the mesh as ordinary triangles
+    const latticeElem = meshElem && findElements(meshElem, 'beamlattice')[0]
+    const lattice = latticeElem && meshVertices?.length ? parseBeamLattice(latticeElem, meshVertices) : undefined
+    const meshTriCount = triData ? triData.indices.length / 3 : 0
+
+    if (!meshVertices?.length || (meshTriCount === 0 && !lattice)) {
+      // Pre-sliced without a mesh of its own: keep the outline points, for bounds and placement
+      if (sliceStack) {
+        const vertices = sliceStackPoints(sliceStack)
+        objects.push({ id, name, type, vertices, indices: new Uint32Array(0), triangleColors: [], sliceStack })
+      }
+      continue
     }
-    if (vertices.length === 0) continue
 
-    const triangles: ParsedTriangle[] = []
-    for (const t of findElements(meshElem, 'triangle')) {
-      const v1 = parseInt(t.getAttribute('v1') || '0')
-      const v2 = parseInt(t.getAttribute('v2') || '0')
-      const v3 = parseInt(t.getAttribute('v3') || '0')
+    let vertices = lattice ? concatFloat32(meshVertices, lattice.vertices) : meshVertices
+    let indices = lattice ? concatUint32(triData?.indices, lattice.indices) : triData!.indices
+    const pids = triData?.pids
+    const pindices = triData?.pindices
+    const triCount = indices.length / 3
+    let triangleColors: (string | null)[] = new Array(triCount)
 
-      const triPid = t.getAttribute('pid') || null
-      const p1Str = t.getAttribute('p1')
-      let colorHex: string | null = null
+    // Texture mapping: one texture per object — the first texture2dgroup referenced wins
+    const objGroup = objPid ? resources.get(objPid) : undefined
+    let uvs: Float32Array | undefined
+    let texture: TextureResource | undefined
+    let hasGradient = false
 
-      if (triPid && p1Str !== null) {
-        colorHex = resolveColor(triPid, parseInt(p1Str), resources)
-      } else if (triPid) {
-        colorHex = resolveColor(triPid, 0, resources)
-      }
-      if (!colorHex && objDefaultColor) colorHex = objDefaultColor
-
-      // Read BambuStudio paint_color / mmu_segmentation attribute
-      let paintAttr =
-        t.getAttribute('paint_color') ||
-        t.getAttribute('slic3rpe:mmu_segmentation') ||
-        t.getAttribute('mmu_segmentation') ||
-        null
-      if (!paintAttr) {
-        for (let ai = 0; ai < t.attributes.length; ai++) {
-          const aName = t.attributes[ai].name.toLowerCase()
-          if (aName.includes('paint_color') || aName.includes('mmu_segmentation')) {
-            paintAttr = t.attributes[ai].value
-            break
+    for (let t = 0; t < meshTriCount; t++) {
+      let colorHex: string | null = null
+      const triPid = pids ? pids[t] : -1
+      // A triangle without a pid of its own resolves its p1/p2/p3 against the object's pid
+      const propPid = triPid >= 0 ? triPid : objPidNumber
+      const group = triPid >= 0 ? resources.get(String(triPid)) : objGroup
+      if (group?.type === 'texture2dgroup') {
+        if (!texture) {
+          texture = group.texture
+          uvs = new Float32Array(triCount * 6)
+        }
+        if (group.texture === texture) {
+          // Corners without their own p2/p3 take p1's coordinate (3MF property rules); p1/p2/p3 apply
+          // whether the group came from the triangle's pid or the object's
+          const p1 = pindices && pindices[t * 3] >= 0 ? pindices[t * 3] : objPindex
+          for (let c = 0; c < 3; c++) {
+            const pc = pindices && pindices[t * 3 + c] >= 0 ? pindices[t * 3 + c] : p1
+            uvs![t * 6 + c * 2] = group.uvs![pc * 2] ?? 0
+            uvs![t * 6 + c * 2 + 1] = group.uvs![pc * 2 + 1] ?? 0
           }
         }
+      } else if (propPid >= 0 && pindices) {
+        const p1 = pindices[t * 3]
+        colorHex = resolveColor(String(propPid), p1 >= 0 ? p1 : triPid >= 0 ? 0 : objPindex, resources)
+        if (!hasGradient && colorHex) {
+          hasGradient =
+            cornerColor(propPid, pindices, t, 1, resources, colorHex) !== colorHex ||
+            cornerColor(propPid, pindices, t, 2, resources, colorHex) !== colorHex
+        }
       }
+      triangleColors[t] = colorHex || objDefaultColor
+    }
 
-      triangles.push({ v1, v2, v3, colorHex, paintAttr: paintAttr || undefined })
+    if (lattice) {
+      // Beam pid/p1, else the lattice's own pid/pindex, else the object's colour
+      const latticePid = latticeElem!.getAttribute('pid')
+      const latticePindex = parseInt(latticeElem!.getAttribute('pindex') || '0') || 0
+      const latticeColor = resolveColor(latticePid, latticePindex, resources) || objDefaultColor
+      const beams = findElements(latticeElem!, 'beams')[0]?.value as BeamData | undefined
+      for (let t = meshTriCount; t < triCount; t++) {
+        const beam = lattice.triangleBeams[t - meshTriCount]
+        const beamPid = beam >= 0 && beams?.pids ? beams.pids[beam] : -1
+        const beamPindex = beam >= 0 && beams?.pindices ? beams.pindices[beam] : -1
+        triangleColors[t] =
+          (beamPid >= 0 || beamPindex >= 0
+            ? resolveColor(beamPid >= 0 ? String(beamPid) : latticePid, Math.max(beamPindex, 0), resources)
+            : null) || latticeColor
+      }
     }
 
-    if (vertices.length > 0 && triangles.length > 0) {
-      objects.push({ id, name, vertices, triangles })
+    // Per-vertex gradients: resolve every corner (p2/p3 default to the triangle colour)
+    let vertexColors: Float32Array | undefined
+    if (hasGradient) {
+      vertexColors = new Float32Array(triCount * 9)
+      const rgb = new Color()
+      for (let t = 0; t < triCount; t++) {
+        const triColor = triangleColors[t] ?? '#FFFFFF'
+        const triPid = pids && t < meshTriCount ? pids[t] : -1
+        const propPid = triPid >= 0 || t >= meshTriCount ? triPid : objPidNumber
+        for (let c = 0; c < 3; c++) {
+          rgb.set(propPid >= 0 && pindices ? cornerColor(propPid, pindices, t, c, resources, triColor) : triColor)
+          vertexColors[t * 9 + c * 3] = rgb.r
+          vertexColors[t * 9 + c * 3 + 1] = rgb.g
+          vertexColors[t * 9 + c * 3 + 2] = rgb.b
+        }
+      }
     }
+
+    // Displacement: subdivide and displace; the new triangles take their source triangle's colour
+    // (texture and gradient corners are not interpolated onto the grid)
+    const displaced = triData?.dids && displaceTriangles(vertices, indices, triData, trianglesElem!, displacement)
+    if (displaced) {
+      vertices = displaced.vertices
+      indices = displaced.indices
+      triangleColors = Array.from(displaced.triangleSources, (t) => triangleColors[t])
+      uvs = undefined
+      vertexColors = undefined
+      texture = undefined
+    }
+
+    objects.push({
+      id,
+      name,
+      type,
+      vertices,
+      indices,
+      triangleColors,
+      paintAttrs: displaced ? undefined : triData?.paint,
+      uvs,
+      texturePath: texture?.path,
+      vertexColors,
+      sliceStack,
+      triangleSets: parseTriangleSets(meshElem!, meshTriCount, displaced?.triangleSources),
+      displacementSegments: displaced?.segments,
+    })
   }
 
   return objects
 }
 
-function parseComponents(objElem: Element): ComponentRef[] {
-  const components: ComponentRef[] = []
-  const seen = new Set<Element>()
-
-  const compElems = [
-    ...Array.from(objElem.querySelectorAll('components > component')),
-    ...findElements(objElem, 'component'),
-  ]
+const OBJECT_TYPES: readonly ThreeMFObjectType[] = ['model', 'support', 'solidsupport', 'surface', 'other']
 
-  for (const comp of compElems) {
-    if (seen.has(comp)) continue
-    seen.add(comp)
+/** Object `type`; missing means `model`, unknown values are treated as `other` (not printed). */
+function parseObjectType(value: string | null): ThreeMFObjectType {
+  if (!value) return 'model'
+  return OBJECT_TYPES.includes(value as ThreeMFObjectType) ? (value as ThreeMFObjectType) : 'other'
+}
 
-    const objectId = parseInt(comp.getAttribute('objectid') || '0')
-    if (objectId <= 0) continue
+/** Apply a `<d:displacementmesh>`'s displacement; `did` on `<d:triangles>` is the default for its triangles. */
+function displaceTriangles(
+  vertices: Float32Array,
+  indices: Uint32Array,
+  triData: TriangleData,
+  trianglesElem: XmlElement,
+  displacement: DisplacementContext,
+): DisplacedMesh | undefined {
+  const defaultDid = parseInt(trianglesElem.getAttribute('did') || '')
+  const dids = defaultDid >= 0 ? triData.dids!.map((did) => (did >= 0 ? did : defaultDid)) : triData.dids!
+  return displaceMesh(
+    vertices,
+    indices,
+    { dids, dindices: triData.dindices!, groups: displacement.groups },
+    displacement.edgeLength,
+  )
+}
 
-    let path: string | undefined
-    for (let i = 0; i < comp.attributes.length; i++) {
-      const attr = comp.attributes[i]
-      if (attr.localName === 'path' || attr.name.endsWith(':path')) {
-        path = attr.value
-        break
+/**
+ * Read a mesh's `<t:triangleset>`s, expanding ranges and dropping references
+ * past its `triCount` triangles. Returns `undefined` when it has none. With
+ * `triangleSources` (a displaced mesh) a set keeps every output triangle
+ * split from one of its members.
+ */
+function parseTriangleSets(
+  meshElem: XmlElement,
+  triCount: number,
+  triangleSources?: Uint32Array,
+): ThreeMFTriangleSet[] | undefined {
+  const sets: ThreeMFTriangleSet[] = []
+
+  for (const setElem of findElements(meshElem, 'triangleset')) {
+    // Inclusive first/last pairs from readTriangleSetRefs; a membership mask drops duplicates and sorts
+    const ranges = (setElem.value as Uint32Array | undefined) ?? new Uint32Array(0)
+    const members = new Uint8Array(triCount)
+    let count = 0
+    for (let r = 0; r < ranges.length; r += 2) {
+      const last = Math.min(ranges[r + 1], triCount - 1)
+      for (let t = ranges[r]; t <= last; t++) {
+        if (!members[t]) count++
+        members[t] = 1
       }
     }
+    let triangles: Uint32Array
+    if (triangleSources) {
+      const split: number[] = []
+      for (let t = 0; t < triangleSources.length; t++) if (members[triangleSources[t]]) split.push(t)
+      triangles = Uint32Array.from(split)
+    } else {
+      triangles = new Uint32Array(count)
+      for (let t = 0, i = 0; i < count; t++) if (members[t]) triangles[i++] = t
+    }
+
+    sets.push({
+      name: setElem.getAttribute('name') || '',
+      identifier: setElem.getAttribute('identifier') || '',
+      triangles,
+    })
+  }
+
+  return sets.length > 0 ? sets : undefined
+}
+
+/**
+ * Read a `<b:beamlattice>` and tessellate it against the mesh's vertices.
+ * Returns `undefined` when it has no usable beams.
+ */
+function parseBeamLattice(latticeElem: XmlElement, vertices: Float32Array): LatticeMesh | undefined {
+  const beams = findElements(latticeElem, 'beams')[0]?.value as BeamData | undefined
+  if (!beams || beams.indices.length === 0) return undefined
+
+  const radius = parseFloat(latticeElem.getAttribute('radius') || '') || 0
+  const ballMode = latticeElem.getAttribute('ballmode')
+  const cap = latticeElem.getAttribute('cap')
+  const mesh = tessellateBeamLattice(
+    vertices,
+    {
+      beams,
+      balls: findElements(latticeElem, 'balls')[0]?.value as BallData | undefined,
+      radius,
+      cap: BEAM_CAPS.includes(cap as BeamCap) ? (cap as BeamCap) : 'sphere',
+      ballMode: ballMode === 'mixed' || ballMode === 'all' ? (ballMode as BallMode) : 'none',
+      ballRadius: parseFloat(latticeElem.getAttribute('ballradius') || '') || radius,
+    },
+    vertices.length / 3,
+  )
+  return mesh.indices.length > 0 ? mesh : undefined
+}
+
+function concatFloat32(a: Float32Array, b: Float32Array): Float32Array {
+  const out = new Float32Array(a.length + b.length)
+  out.set(a)
+  out.set(b, a.length)
+  return out
+}
 
+function concatUint32(a: Uint32Array | undefined, b: Uint32Array): Uint32Array {
+  if (!a || a.length === 0) return b
+  const out = new Uint32Array(a.length + b.length)
+  out.set(a)
+  out.set(b, a.length)
+  return out
+}
+
+/** Colour of one triangle corner (`p1`/`p2`/`p3`), or `fallback` when the corner has no index of its own. */
+function cornerColor(
+  pid: number,
+  pindices: Int32Array,
+  triangle: number,
+  corner: number,
+  resources: Map<string, PropertyResource>,
+  fallback: string,
+): string {
+  const pindex = pindices[triangle * 3 + corner]
+  return (pindex >= 0 && resolveColor(String(pid), pindex, resources)) || fallback
+}
+
+function parseComponents(objElem: XmlElement, part: string): ComponentRef[] {
+  const components: ComponentRef[] = []
+
+  for (const comp of findElements(objElem, 'component')) {
+    const objectId = parseInt(comp.getAttribute('objectid') || '0')
+    if (objectId <= 0) continue
+
+    const pathAttr = getAttributeByLocalName(comp, 'path')
+    const path = pathAttr ? resolvePartName(pathAttr, part) : undefined
     const pid = comp.getAttribute('pid') || undefined
     const pindex = pid ? parseInt(comp.getAttribute('pindex') || '0') : undefined
+    const transform = parseTransform(comp.getAttribute('transform'))
 
-    components.push({ objectId, path, pid, pindex })
+    components.push({ objectId, path, pid, pindex, transform })
   }
 
   return components
 }
 
+// ---------------------------------------------------------------------------
+// Build Placement
+// ---------------------------------------------------------------------------
+
+/**
+ * Walk the build tree (item → composite → component …) and compose the
+ * transforms down to each geometry object.
+ *
+ * An object placed more than once keeps its first placement — geometries are
+ * one-per-object, so additional instances are not duplicated.
+ */
+function resolvePlacements(
+  buildItems: BuildItem[],
+  objectComponents: Map<number, ComponentRef[]>,
+): Map<number, Matrix4> {
+  const placements = new Map<number, Matrix4>()
+
+  const place = (objectId: number, matrix: Matrix4, depth: number) => {
+    if (depth > 32) return // cyclic component references
+    const components = objectComponents.get(objectId)
+    if (components) {
+      for (const comp of components) {
+        const childMatrix = comp.transform ? matrix.clone().multiply(comp.transform) : matrix
+        place(comp.objectId, childMatrix, depth + 1)
+      }
+      return
+    }
+    if (!placements.has(objectId)) placements.set(objectId, matrix)
+  }
+
+  for (const item of buildItems) place(item.objectId, item.transform ?? new Matrix4(), 0)
+  return placements
+}
+
+/** Bake a placement into an object's vertices, keeping winding outward for mirrored transforms. */
+function applyPlacement(obj: ParsedGeomObject, matrix: Matrix4): void {
+  const e = matrix.elements
+  const v = obj.vertices
+  for (let i = 0; i < v.length; i += 3) {
+    const x = v[i], y = v[i + 1], z = v[i + 2]
+    v[i] = e[0] * x + e[4] * y + e[8] * z + e[12]
+    v[i + 1] = e[1] * x + e[5] * y + e[9] * z + e[13]
+    v[i + 2] = e[2] * x + e[6] * y + e[10] * z + e[14]
+  }
+  if (matrix.determinant() < 0) {
+    const idx = obj.indices
+    for (let i = 0, t = 0; i < idx.length; i += 3, t++) {
+      const v2 = idx[i + 1]
+      idx[i + 1] = idx[i + 2]
+      idx[i + 2] = v2
+      if (obj.uvs) swapCorners(obj.uvs, t, 2)
+      if (obj.vertexColors) swapCorners(obj.vertexColors, t, 3)
+    }
+  }
+}
+
+/** Swap the second and third corner of triangle `t` in a per-corner attribute array. */
+function swapCorners(arr: Float32Array, t: number, itemSize: number): void {
+  const second = (t * 3 + 1) * itemSize
+  const third = (t * 3 + 2) * itemSize
+  for (let k = 0; k < itemSize; k++) {
+    const tmp = arr[second + k]
+    arr[second + k] = arr[third + k]
+    arr[third + k] = tmp
+  }
+}
+
+/**
+ * Give every triangle corner its own vertex, so corners that share a position
+ * can still carry different texture coordinates. Triangle order is kept, so
+ * per-triangle colour maps stay valid.
+ */
+function unweldTriangles(vertices: Float32Array, indices: Uint32Array): Float32Array {
+  const out = new Float32Array(indices.length * 3)
+  for (let i = 0; i < indices.length; i++) {
+    const v = indices[i] * 3
+    out[i * 3] = vertices[v]
+    out[i * 3 + 1] = vertices[v + 1]
+    out[i * 3 + 2] = vertices[v + 2]
+  }
+  return out
+}
+
+/** Resolve plate object IDs (build-level, possibly composite) to geometry indices. */
+function plateGeometryIndices(
+  objectIds: number[],
+  objectIdToGeometryIndex: Map<number, number>,
+  compositeToGeometryMap: Map<number, number[]>,
+): number[] {
+  const indices = new Set<number>()
+  for (const oid of objectIds) {
+    const children = compositeToGeometryMap.get(oid)
+    for (const id of children ?? [oid]) {
+      const gi = objectIdToGeometryIndex.get(id)
+      if (gi !== undefined) indices.add(gi)
+    }
+  }
+  return [...indices].sort((a, b) => a - b)
+}
+
+// ---------------------------------------------------------------------------
+// Package Parts
+// ---------------------------------------------------------------------------
+
+/** OPC relationship type of a 3D model part. */
+const MODEL_RELATIONSHIP_TYPE = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel'
+const MODEL_CONTENT_TYPE = 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml'
+
+/**
+ * Resolve an OPC part name or relationship target to a zip entry path.
+ * Absolute names (`/3D/Objects/a.model`) drop the leading slash; relative
+ * ones resolve against the folder of `sourcePart`.
+ */
+function resolvePartName(target: string, sourcePart = ''): string {
+  let name = target
+  try {
+    name = decodeURIComponent(target)
+  } catch {
+    // Malformed escapes — use the name as written
+  }
+  const segments = name.startsWith('/') ? [] : sourcePart.split('/').slice(0, -1)
+  for (const segment of name.split('/')) {
+    if (segment === '..') segments.pop()
+    else if (segment && segment !== '.') segments.push(segment)
+  }
+  return segments.join('/')
+}
+
+/** Key of an object within a model part — object IDs are only unique per part, and part names ignore case. */
+function partKey(part: string, objectId: number): string {
+  return `${part.toLowerCase()}#${objectId}`
+}
+
+/** Internal targets of a part's relationships of one type, from its `_rels/<name>.rels`. */
+async function readRelationshipTargets(
+  zipContent: JSZip,
+  part: string,
+  type: string,
+  diagnostics: ParseDiagnostic[],
+): Promise<string[]> {
+  const slash = part.lastIndexOf('/')
+  const relsPath = `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`
+  const file = zipContent.file(relsPath)
+  if (!file) return []
+
+  try {
+    const doc = parseXml(await file.async('text'))
+    return findElements(doc, 'Relationship')
+      .filter((rel) => rel.getAttribute('Type') === type && rel.getAttribute('TargetMode') !== 'External')
+      .map((rel) => resolvePartName(rel.getAttribute('Target') || '', part))
+      .filter((target) => target.length > 0)
+  } catch (err) {
+    const message = `Could not read relationships: ${errorMessage(err)}`
+    addDiagnostic(diagnostics, 'warning', 'part-unreadable', message, relsPath)
+    return []
+  }
+}
+
+/** Read `[Content_Types].xml`, or `null` when the package has none. */
+async function readContentTypes(zipContent: JSZip, diagnostics: ParseDiagnostic[]): Promise<ContentTypes | null> {
+  const file = zipContent.file('[Content_Types].xml')
+  if (!file) return null
+
+  const types: ContentTypes = { defaults: new Map(), overrides: new Map() }
+  try {
+    const doc = parseXml(await file.async('text'))
+    for (const elem of findElements(doc, 'Default')) {
+      const extension = elem.getAttribute('Extension')
+      const type = elem.getAttribute('ContentType')
+      if (extension && type) types.defaults.set(extension.toLowerCase(), type)
+    }
+    for (const elem of findElements(doc, 'Override')) {
+      const partName = elem.getAttribute('PartName')
+      const type = elem.getAttribute('ContentType')
+      if (partName && type) types.overrides.set(resolvePartName(partName).toLowerCase(), type)
+    }
+  } catch (err) {
+    const message = `Could not read content types: ${errorMessage(err)}`
+    addDiagnostic(diagnostics, 'warning', 'part-unreadable', message, '[Content_Types].xml')
+  }
+  return types
+}
+
+function contentTypeOf(types: ContentTypes, part: string): string | undefined {
+  const name = part.toLowerCase()
+  return types.overrides.get(name) ?? types.defaults.get(name.slice(name.lastIndexOf('.') + 1))
+}
+
+/**
+ * Find the start part — the model the 3D model relationship in `_rels/.rels`
+ * points to. Packages without one fall back to `3D/3dmodel.model`, then to
+ * any part `[Content_Types].xml` declares as a model, then to any `.model`
+ * file in `3D/`.
+ *
+ * @throws {ThreeMFParseError} When the relationship points to a missing part,
+ * or the package holds no model at all.
+ */
+async function findMainModelPath(
+  zipContent: JSZip,
+  zipPathByName: Map<string, string>,
+  diagnostics: ParseDiagnostic[],
+): Promise<string> {
+  const contentTypes = await readContentTypes(zipContent, diagnostics)
+  if (!contentTypes) {
+    addDiagnostic(
+      diagnostics,
+      'warning',
+      'content-types-missing',
+      'No [Content_Types].xml — not a valid OPC package; reading it anyway',
+    )
+  }
+
+  const startParts = await readRelationshipTargets(zipContent, '', MODEL_RELATIONSHIP_TYPE, diagnostics)
+  if (startParts.length > 0) {
+    if (startParts.length > 1) {
+      addDiagnostic(
+        diagnostics,
+        'warning',
+        'multiple-start-parts',
+        `${startParts.length} 3D model relationships in _rels/.rels; using the first`,
+        '_rels/.rels',
+      )
+    }
+    const mainModelPath = zipPathByName.get(startParts[0].toLowerCase())
+    if (!mainModelPath) {
+      const target = `/${startParts[0]}`
+      throw new ThreeMFParseError(`Invalid .3MF file: _rels/.rels points to ${target}, which is not in the package`)
+    }
+    const contentType = contentTypes && contentTypeOf(contentTypes, mainModelPath)
+    if (contentTypes && contentType !== MODEL_CONTENT_TYPE) {
+      addDiagnostic(
+        diagnostics,
+        'warning',
+        'content-type-mismatch',
+        `Start part has content type ${contentType ?? '(none)'}, not ${MODEL_CONTENT_TYPE}`,
+        mainModelPath,
+      )
+    }
+    return mainModelPath
+  }
+
+  const declared = contentTypes
+    ? [...zipPathByName.values()].filter((f) => contentTypeOf(contentTypes, f) === MODEL_CONTENT_TYPE)
+    : []
+  const mainModelPath =
+    zipPathByName.get('3d/3dmodel.model') ??
+    declared[0] ??
+    [...zipPathByName.values()].find((f) => f.startsWith('3D/') && f.endsWith('.model'))
+  if (!mainModelPath) throw new ThreeMFParseError('Invalid .3MF file: no 3D model part found')
+
+  addDiagnostic(
+    diagnostics,
+    'warning',
+    'model-path-fallback',
+    `No 3D model relationship in _rels/.rels; using ${mainModelPath}`,
+    mainModelPath,
+  )
+  return mainModelPath
+}
+
+/**
+ * Record a model part's objects, UUIDs and components in `index`. Returns
+ * the parts its components reference through `p:path`, so they get loaded.
+ */
+function indexModelPart(
+  doc: XmlDocument,
+  part: string,
+  resources: Map<string, PropertyResource>,
+  index: ModelPartIndex,
+): string[] {
+  const objectIds: number[] = []
+  const referenced: string[] = []
+
+  for (const objElem of findElements(doc, 'object')) {
+    const objectId = parseInt(objElem.getAttribute('id') || '0')
+    if (objectId <= 0) continue
+    objectIds.push(objectId)
+    const uuid = getAttributeByLocalName(objElem, 'UUID')
+    if (uuid) index.uuids.set(partKey(part, objectId), uuid)
+
+    const components = parseComponents(objElem, part)
+    if (components.length === 0) continue
+    index.composites.push({ part, objectId, components })
+    for (const comp of components) {
+      if (comp.path) referenced.push(comp.path)
+      if (comp.pid) {
+        const overrideColor = resolveColor(comp.pid, comp.pindex || 0, resources)
+        if (overrideColor) index.colorOverrides.set(partKey(comp.path ?? part, comp.objectId), overrideColor)
+      }
+    }
+  }
+
+  index.objectIds.set(part, objectIds)
+  return referenced
+}
+
+/** Component colour overrides for the objects of one part, by local object ID. */
+function partColorOverrides(index: ModelPartIndex, part: string): Map<number, string> {
+  const overrides = new Map<number, string>()
+  for (const objectId of index.objectIds.get(part) ?? []) {
+    const color = index.colorOverrides.get(partKey(part, objectId))
+    if (color) overrides.set(objectId, color)
+  }
+  return overrides
+}
+
+// ---------------------------------------------------------------------------
+// Secure Content
+// ---------------------------------------------------------------------------
+
+const KEYSTORE_RELATIONSHIP_TYPE = 'http://schemas.microsoft.com/3dmanufacturing/2019/04/keystore'
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/\s+/g, ''))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/** Base64 content of the first `localName` descendant, if any. */
+function base64Child(elem: XmlElement, localName: string): Uint8Array | undefined {
+  const child = findElements(elem, localName)[0]
+  return child ? decodeBase64(child.textContent) : undefined
+}
+
+/**
+ * Read the Secure Content keystore — named by the `_rels/.rels` keystore
+ * relationship, else `Secure/keystore.xml`. Returns its encrypted parts, or
+ * an empty list when the package has no keystore.
+ */
+async function readKeystore(
+  zipContent: JSZip,
+  zipPathByName: Map<string, string>,
+  diagnostics: ParseDiagnostic[],
+): Promise<ThreeMFEncryptedResource[]> {
+  const [target] = await readRelationshipTargets(zipContent, '', KEYSTORE_RELATIONSHIP_TYPE, diagnostics)
+  const keystorePath = zipPathByName.get((target ?? 'Secure/keystore.xml').toLowerCase())
+  if (!keystorePath) return []
+
+  let doc: XmlDocument
+  try {
+    doc = parseXml(await zipContent.file(keystorePath)!.async('text'))
+  } catch (err) {
+    throw new ThreeMFParseError(`Invalid .3MF file: unreadable keystore ${keystorePath} (${errorMessage(err)})`)
+  }
+
+  const consumers: ThreeMFKeystoreConsumer[] = findElements(doc, 'consumer').map((elem) => {
+    const keyValue = findElements(elem, 'keyvalue')[0]?.textContent.trim()
+    return {
+      consumerId: elem.getAttribute('consumerid') || '',
+      keyId: elem.getAttribute('keyid') || undefined,
+      keyValue: keyValue || undefined,
+    }
+  })
+
+  const resources: ThreeMFEncryptedResource[] = []
+  for (const group of findElements(doc, 'resourcedatagroup')) {
+    const accessRights = findElements(group, 'accessright').flatMap((elem) => {
+      const consumer = consumers[parseInt(elem.getAttribute('consumerindex') || '0')]
+      const kek = findElements(elem, 'kekparams')[0]
+      const cipherData = findElements(elem, 'cipherdata')[0]
+      if (!consumer || !cipherData) return []
+      return [
+        {
+          consumer,
+          wrappingAlgorithm: kek?.getAttribute('wrappingalgorithm') || '',
+          mgfAlgorithm: kek?.getAttribute('mgfalgorithm') || undefined,
+          digestMethod: kek?.getAttribute('digestmethod') || undefined,
+          wrappedKey: base64Child(cipherData, 'CipherValue') ?? decodeBase64(cipherData.textContent),
+        },
+      ]
+    })
+
+    for (const elem of findElements(group, 'resourcedata')) {
+      const part = resolvePartName(elem.getAttribute('path') || '')
+      const path = zipPathByName.get(part.toLowerCase())
+      if (!path) {
+        const message = `Keystore lists encrypted part /${part}, which is not in the package`
+        addDiagnostic(diagnostics, 'warning', 'encrypted-part-missing', message, keystorePath)
+        continue
+      }
+      const cek = findElements(elem, 'cekparams')[0]
+      resources.push({
+        path,
+        encryptionAlgorithm: cek?.getAttribute('encryptionalgorithm') || '',
+        compression: cek?.getAttribute('compression') === 'deflate' ? 'deflate' : 'none',
+        iv: cek && base64Child(cek, 'iv'),
+        tag: cek && base64Child(cek, 'tag'),
+        aad: cek && base64Child(cek, 'aad'),
+        keyUuid: group.getAttribute('keyuuid') || undefined,
+        accessRights,
+      })
+    }
+  }
+  return resources
+}
+
+/**
+ * Replace each encrypted part in `zipContent` with its plain text, so the rest
+ * of the parse reads it like any other part.
+ *
+ * @throws {ThreeMFEncryptedError} When there is no `decrypt` callback, or it
+ * fails for a part.
+ */
+async function decryptParts(
+  zipContent: JSZip,
+  resources: ThreeMFEncryptedResource[],
+  decrypt: ThreeMFDecryptCallback | undefined,
+  signal: AbortSignal | undefined,
+): Promise<void> {
+  const paths = resources.map((res) => res.path)
+  if (!decrypt) {
+    const listed = paths.length > 3 ? `${paths.slice(0, 3).join(', ')}, …` : paths.join(', ')
+    const message = `Encrypted .3MF file: Secure Content protects ${listed}; pass a decrypt callback to open it`
+    throw new ThreeMFEncryptedError(message, paths)
+  }
+
+  for (const resource of resources) {
+    try {
+      const cipherText = await zipContent.file(resource.path)!.async('uint8array')
+      const plain = new Uint8Array(await decrypt(resource, cipherText))
+      zipContent.file(resource.path, resource.compression === 'deflate' ? await inflate(plain) : plain)
+    } catch (err) {
+      throwIfAborted(signal)
+      throw new ThreeMFEncryptedError(`Could not decrypt ${resource.path}: ${errorMessage(err)}`, paths)
+    }
+    throwIfAborted(signal)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Package Metadata
+// ---------------------------------------------------------------------------
+
+type MetadataField = Exclude<keyof ThreeMFMetadata, 'raw'>
+
+/** Well-known `<metadata name>` values (lowercased) → typed field. */
+const MODEL_METADATA_FIELDS: Record<string, MetadataField> = {
+  title: 'title',
+  designer: 'designer',
+  description: 'description',
+  copyright: 'copyright',
+  licenseterms: 'licenseTerms',
+  license: 'licenseTerms', // Bambu Studio
+  rating: 'rating',
+  creationdate: 'creationDate',
+  modificationdate: 'modificationDate',
+  application: 'application',
+}
+
+/** OPC core property local names → typed field. */
+const CORE_PROPERTY_FIELDS: Record<string, MetadataField> = {
+  title: 'title',
+  creator: 'designer',
+  description: 'description',
+  keywords: 'keywords',
+  created: 'creationDate',
+  modified: 'modificationDate',
+}
+
+/**
+ * Collect `<metadata name="...">` entries that sit directly under `<model>`
+ * (object-level `<metadatagroup>` entries are skipped), then fill missing
+ * fields from `docProps/core.xml`.
+ */
+function parsePackageMetadata(modelDoc: XmlDocument, coreDoc: XmlDocument | null): ThreeMFMetadata {
+  const metadata: ThreeMFMetadata = { raw: {} }
+  const root = modelDoc.documentElement
+
+  for (const meta of findElements(modelDoc, 'metadata')) {
+    if (meta.parentNode !== root) continue
+    const name = meta.getAttribute('name') || meta.getAttribute('Name') || ''
+    if (!name) continue
+    const value = meta.textContent?.trim() || ''
+    metadata.raw[name] = value
+
+    const field = MODEL_METADATA_FIELDS[name.toLowerCase()]
+    if (field && value && !metadata[field]) metadata[field] = value
+  }
+
+  if (coreDoc?.documentElement) {
+    const props = coreDoc.documentElement.children
+    for (let i = 0; i < props.length; i++) {
+      const prop = props[i]
+      const value = prop.textContent?.trim() || ''
+      if (!value) continue
+      if (!(prop.tagName in metadata.raw)) metadata.raw[prop.tagName] = value
+
+      const field = CORE_PROPERTY_FIELDS[prop.tagName.split(':').pop()!.toLowerCase()]
+      if (field && !metadata[field]) metadata[field] = value
+    }
+  }
+
+  return metadata
+}
+
 // ---------------------------------------------------------------------------
 // Bambu Studio / Slicer Metadata
 // ---------------------------------------------------------------------------
 
+/** Per-filament settings without a `filament_` prefix that are kept in `FilamentProfile.settings`. */
+const FILAMENT_SETTING_KEYS = new Set([
+  'nozzle_temperature',
+  'nozzle_temperature_initial_layer',
+  'nozzle_temperature_range_low',
+  'nozzle_temperature_range_high',
+  'cool_plate_temp',
+  'cool_plate_temp_initial_layer',
+  'eng_plate_temp',
+  'eng_plate_temp_initial_layer',
+  'hot_plate_temp',
+  'hot_plate_temp_initial_layer',
+  'textured_plate_temp',
+  'textured_plate_temp_initial_layer',
+  'chamber_temperatures',
+  'temperature_vitrification',
+  'fan_min_speed',
+  'fan_max_speed',
+  'required_nozzle_HRC',
+])
+
+/** Read the `key = a;b;c` lines of an INI-style slicer config into per-key value lists. */
+function parseKeyValueConfig(content: string): Record<string, string[]> {
+  const config: Record<string, string[]> = {}
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*([\w.-]+)\s*=\s*(.*)$/)
+    if (match) config[match[1]] = match[2].split(';').map((v) => v.trim())
+  }
+  return config
+}
+
+/**
+ * Read the per-filament settings of `Metadata/project_settings.config`
+ * (JSON in Bambu Studio / OrcaSlicer, `key = value` in older files). The
+ * filament count is that of `filament_colour`, `filament_settings_id` or
+ * `filament_type`; only settings with one value per filament are kept.
+ */
+async function parseFilamentProfiles(
+  zipContent: JSZip,
+  diagnostics: ParseDiagnostic[],
+  opacities: Map<string, number>,
+): Promise<FilamentProfile[]> {
+  const path = ['Metadata/project_settings.config', 'Metadata/Project_settings.config'].find((p) => zipContent.file(p))
+  if (!path) return []
+
+  let config: Record<string, string[]> = {}
+  try {
+    const content = (await zipContent.file(path)!.async('text')).trim()
+    if (content.startsWith('{')) {
+      try {
+        for (const [key, value] of Object.entries(JSON.parse(content) as Record<string, unknown>)) {
+          if (Array.isArray(value)) config[key] = value.map((v) => String(v).trim())
+          else if (typeof value === 'string') config[key] = value.split(';').map((v) => v.trim())
+        }
+      } catch {
+        // Not JSON after all (reported by extractFilamentColors)
+        config = parseKeyValueConfig(content)
+      }
+    } else {
+      config = parseKeyValueConfig(content)
+    }
+  } catch (err) {
+    const message = `Could not read filament settings: ${errorMessage(err)}`
+    addDiagnostic(diagnostics, 'warning', 'part-unreadable', message, path)
+    return []
+  }
+
+  const colorKey = config.filament_colour ? 'filament_colour' : 'filament_color'
+  const count = (config[colorKey] ?? config.filament_settings_id ?? config.filament_type)?.length ?? 0
+  const perFilamentKeys = Object.keys(config).filter(
+    (key) => config[key].length === count && (key.startsWith('filament_') || FILAMENT_SETTING_KEYS.has(key)),
+  )
+
+  const filaments: FilamentProfile[] = []
+  for (let i = 0; i < count; i++) {
+    const settings: Record<string, string> = {}
+    for (const key of perFilamentKeys) settings[key] = config[key][i]
+    const text = (key: string) => (settings[key] && settings[key] !== 'nil' ? settings[key] : undefined)
+    const number = (key: string) => {
+      const value = parseFloat(text(key) ?? '')
+      return Number.isFinite(value) ? value : undefined
+    }
+    const flag = (key: string) => (text(key) === undefined ? undefined : text(key) === '1' || text(key) === 'true')
+
+    const color = text(colorKey)
+    filaments.push({
+      id: i + 1,
+      color: color ? normalizeColor(color, opacities) : undefined,
+      type: text('filament_type'),
+      vendor: text('filament_vendor'),
+      settingsId: text('filament_settings_id')?.replace(/^"(.*)"$/, '$1'),
+      density: number('filament_density'),
+      cost: number('filament_cost'),
+      diameter: number('filament_diameter'),
+      nozzleTemperature: number('nozzle_temperature'),
+      soluble: flag('filament_soluble'),
+      isSupport: flag('filament_is_support'),
+      settings,
+    })
+  }
+
+  if (filaments.length > 0) {
+    const types = filaments.map((f) => f.type ?? '?').join(', ')
+    addDiagnostic(diagnostics, 'info', 'filament-profiles', `${filaments.length} filament profiles (${types})`, path)
+  }
+  return filaments
+}
+
 async function extractFilamentColors(
   zipContent: JSZip,
-): Promise<{ colors: string[]; filamentCount: number }> {
+  diagnostics: ParseDiagnostic[],
+  opacities: Map<string, number>,
+): Promise<{ colors: string[]; filamentCount: number; source?: string }> {
   let filamentCount = 0
 
   // Source 1: project_settings.config (JSON in Bambu Studio)
-  for (const path of ['Metadata/project_settings.config', 'Metadata/Project_settings.config']) {
+  const projectSettingsPaths = ['Metadata/project_settings.config', 'Metadata/Project_settings.config']
+  for (const path of projectSettingsPaths) {
     const file = zipContent.file(path)
     if (!file) continue
     try {
@@ -288,14 +1505,20 @@ async function extractFilamentColors(
                 .map((c: string) => c.trim())
                 .filter((c: string) => c.length > 0)
             }
-            const colors = rawColors.map((c) => normalizeColor(c))
+            const colors = rawColors.map((c) => normalizeColor(c, opacities))
             if (colors.length > 0)
-              return { colors, filamentCount: Math.max(filamentCount, colors.length) }
+              return { colors, filamentCount: Math.max(filamentCount, colors.length), source: path }
           }
 
-          if (filamentCount > 1) return { colors: [], filamentCount }
-        } catch {
-          /* try INI fallback */
+          if (filamentCount > 1) return { colors: [], filamentCount, source: path }
+        } catch (err) {
+          addDiagnostic(
+            diagnostics,
+            'warning',
+            'config-invalid-json',
+            `Not valid JSON (${errorMessage(err)}); trying key = value format`,
+            path,
+          )
         }
       }
 
@@ -305,11 +1528,17 @@ async function extractFilamentColors(
           .split(';')
           .map((c) => c.trim())
           .filter((c) => c.length > 0)
-        const colors = raw.map((c) => normalizeColor(c))
-        if (colors.length > 0) return { colors, filamentCount: Math.max(filamentCount, colors.length) }
+        const colors = raw.map((c) => normalizeColor(c, opacities))
+        if (colors.length > 0) return { colors, filamentCount: Math.max(filamentCount, colors.length), source: path }
       }
-    } catch {
-      /* ignore */
+    } catch (err) {
+      addDiagnostic(
+        diagnostics,
+        'warning',
+        'part-unreadable',
+        `Could not read filament settings: ${errorMessage(err)}`,
+        path,
+      )
     }
   }
 
@@ -318,23 +1547,34 @@ async function extractFilamentColors(
   if (sliceInfoFile) {
     try {
       const content = await sliceInfoFile.async('text')
-      const parser = new DOMParser()
-      const doc = parser.parseFromString(content, 'text/xml')
+      const doc = parseXml(content)
       const colors: string[] = []
       for (const f of findElements(doc, 'filament')) {
         const c = f.getAttribute('color') || f.getAttribute('Color') || ''
-        if (c && c.trim()) colors.push(normalizeColor(c))
+        if (c && c.trim()) colors.push(normalizeColor(c, opacities))
       }
       const unique = [...new Set(colors)]
-      if (unique.length > 0) return { colors: unique, filamentCount: Math.max(filamentCount, unique.length) }
-    } catch {
-      /* ignore */
+      if (unique.length > 0) {
+        return {
+          colors: unique,
+          filamentCount: Math.max(filamentCount, unique.length),
+          source: 'Metadata/slice_info.config',
+        }
+      }
+    } catch (err) {
+      addDiagnostic(
+        diagnostics,
+        'warning',
+        'part-unreadable',
+        `Could not read filament colours: ${errorMessage(err)}`,
+        'Metadata/slice_info.config',
+      )
     }
   }
 
   // Source 3: Any other .config file
   const configFiles = Object.keys(zipContent.files).filter(
-    (f) => f.endsWith('.config') && !f.includes('model_settings'),
+    (f) => f.endsWith('.config') && !f.includes('model_settings') && !projectSettingsPaths.includes(f),
   )
   for (const path of configFiles) {
     try {
@@ -355,21 +1595,29 @@ async function extractFilamentColors(
             } else if (typeof val === 'string') {
               rawColors = val.split(';').map((c: string) => c.trim()).filter((c: string) => c.length > 0)
             }
-            const colors = rawColors.map((c) => normalizeColor(c))
-            if (colors.length > 0) return { colors, filamentCount: Math.max(filamentCount, colors.length) }
+            const colors = rawColors.map((c) => normalizeColor(c, opacities))
+            if (colors.length > 0) {
+              return { colors, filamentCount: Math.max(filamentCount, colors.length), source: path }
+            }
           }
-        } catch {
-          /* ignore */
+        } catch (err) {
+          addDiagnostic(
+            diagnostics,
+            'warning',
+            'config-invalid-json',
+            `Not valid JSON (${errorMessage(err)}); trying key = value format`,
+            path,
+          )
         }
       }
       const match = content.match(/filament_colou?r\s*=\s*(.+)/i)
       if (match) {
         const raw = match[1].split(';').map((c) => c.trim()).filter((c) => c.length > 0)
-        const colors = raw.map((c) => normalizeColor(c))
-        if (colors.length > 0) return { colors, filamentCount: Math.max(filamentCount, colors.length) }
+        const colors = raw.map((c) => normalizeColor(c, opacities))
+        if (colors.length > 0) return { colors, filamentCount: Math.max(filamentCount, colors.length), source: path }
       }
-    } catch {
-      /* ignore */
+    } catch (err) {
+      addDiagnostic(diagnostics, 'warning', 'part-unreadable', `Could not read config: ${errorMessage(err)}`, path)
     }
   }
 
@@ -378,6 +1626,7 @@ async function extractFilamentColors(
 
 async function parseModelSettings(
   zipContent: JSZip,
+  diagnostics: ParseDiagnostic[],
 ): Promise<{
   objectExtruderMap: Map<number, number>
   hasMmuSegmentation: boolean
@@ -392,8 +1641,7 @@ async function parseModelSettings(
 
   try {
     const content = await modelSettingsFile.async('text')
-    const parser = new DOMParser()
-    const configDoc = parser.parseFromString(content, 'text/xml')
+    const configDoc = parseXml(content)
     const configObjects = findElements(configDoc, 'object')
 
     for (const obj of configObjects) {
@@ -401,7 +1649,7 @@ async function parseModelSettings(
       if (objId <= 0) continue
 
       const allObjMeta = new Map<string, string>()
-      const partMeta = new Set<Element>()
+      const partMeta = new Set<XmlElement>()
 
       const parts = findElements(obj, 'part')
       for (const part of parts) {
@@ -476,13 +1724,186 @@ async function parseModelSettings(
     }
 
     return { objectExtruderMap, hasMmuSegmentation, distinctExtruders }
-  } catch {
+  } catch (err) {
+    addDiagnostic(
+      diagnostics,
+      'warning',
+      'part-unreadable',
+      `Could not read object settings: ${errorMessage(err)}`,
+      'Metadata/model_settings.config',
+    )
     return { objectExtruderMap, hasMmuSegmentation, distinctExtruders }
   }
 }
 
+/** `<plate>` metadata keys naming the package parts written for the plate. */
+const PLATE_FILE_KEYS: Record<string, keyof PlateFiles> = {
+  gcode_file: 'gcode',
+  thumbnail_file: 'thumbnail',
+  top_file: 'top',
+  pick_file: 'pick',
+}
+
+/** Read a `<metadata key value>` list into a map. Values may also be given as text content. */
+function readKeyValueMetadata(elements: XmlElement[]): Map<string, string> {
+  const values = new Map<string, string>()
+  for (const meta of elements) {
+    const key = meta.getAttribute('key')
+    if (key) values.set(key, meta.getAttribute('value') || meta.textContent?.trim() || '')
+  }
+  return values
+}
+
+/**
+ * Read the `<plate>` blocks of `Metadata/model_settings.config` — plate name,
+ * bed type, print sequence, files and the object instances placed on it.
+ * `objectIds` are the distinct `object_id`s of those instances.
+ */
+async function parsePlateSettings(zipContent: JSZip, diagnostics: ParseDiagnostic[]): Promise<Plate[]> {
+  const plates: Plate[] = []
+  const file = zipContent.file('Metadata/model_settings.config')
+  if (!file) return plates
+
+  try {
+    const configDoc = parseXml(await file.async('text'))
+    for (const plateElem of findElements(configDoc, 'plate')) {
+      const meta = readKeyValueMetadata(plateElem.children.filter((c) => c.localName === 'metadata'))
+      const plateNum = parseInt(meta.get('plater_id') || '0')
+      if (!(plateNum > 0)) continue
+
+      const instances: PlateInstance[] = []
+      for (const instanceElem of findElements(plateElem, 'model_instance')) {
+        const instanceMeta = readKeyValueMetadata(findElements(instanceElem, 'metadata'))
+        const objectId = parseInt(instanceMeta.get('object_id') || '')
+        if (!(objectId > 0)) continue
+        const identifyId = parseInt(instanceMeta.get('identify_id') || '')
+        instances.push({
+          objectId,
+          instanceId: parseInt(instanceMeta.get('instance_id') || '0') || 0,
+          identifyId: Number.isFinite(identifyId) ? identifyId : undefined,
+        })
+      }
+
+      const files: PlateFiles = {}
+      for (const [key, field] of Object.entries(PLATE_FILE_KEYS)) {
+        const path = meta.get(key)
+        if (path) files[field] = resolvePartName(path)
+      }
+
+      plates.push({
+        id: plateNum,
+        name: meta.get('plater_name')?.trim() || `Plate ${plateNum}`,
+        objectIds: [...new Set(instances.map((inst) => inst.objectId))],
+        instances: instances.length > 0 ? instances : undefined,
+        locked: meta.has('locked') ? meta.get('locked') === 'true' : undefined,
+        bedType: meta.get('bed_type') || undefined,
+        printSequence: meta.get('print_sequence') || undefined,
+        files: Object.keys(files).length > 0 ? files : undefined,
+      })
+    }
+  } catch (err) {
+    addDiagnostic(
+      diagnostics,
+      'warning',
+      'part-unreadable',
+      `Could not read plate settings: ${errorMessage(err)}`,
+      'Metadata/model_settings.config',
+    )
+  }
+
+  if (plates.length > 0) {
+    const named = plates.filter((p) => p.name !== `Plate ${p.id}`).length
+    addDiagnostic(
+      diagnostics,
+      'info',
+      'plate-settings',
+      `${plates.length} plates (${named} named) in model settings`,
+      'Metadata/model_settings.config',
+    )
+  }
+  return plates
+}
+
+/**
+ * Read the per-plate statistics of a sliced project from
+ * `Metadata/slice_info.config`, keyed by plate number (`index`).
+ */
+async function parseSliceInfo(
+  zipContent: JSZip,
+  diagnostics: ParseDiagnostic[],
+  opacities: Map<string, number>,
+): Promise<Map<number, PlateSliceInfo>> {
+  const sliceInfo = new Map<number, PlateSliceInfo>()
+  const file = zipContent.file('Metadata/slice_info.config')
+  if (!file) return sliceInfo
+
+  const number = (value: string | null | undefined) => {
+    const n = parseFloat(value ?? '')
+    return Number.isFinite(n) ? n : undefined
+  }
+
+  try {
+    const doc = parseXml(await file.async('text'))
+    for (const plateElem of findElements(doc, 'plate')) {
+      const meta = readKeyValueMetadata(plateElem.children.filter((c) => c.localName === 'metadata'))
+      const plateNum = parseInt(meta.get('index') || '0')
+      if (!(plateNum > 0)) continue
+
+      const filaments: PlateFilamentUsage[] = []
+      for (const filamentElem of findElements(plateElem, 'filament')) {
+        const id = parseInt(filamentElem.getAttribute('id') || '')
+        if (!(id > 0)) continue
+        const color = filamentElem.getAttribute('color')
+        filaments.push({
+          id,
+          type: filamentElem.getAttribute('type') || undefined,
+          color: color ? normalizeColor(color, opacities) : undefined,
+          usedMeters: number(filamentElem.getAttribute('used_m')),
+          usedGrams: number(filamentElem.getAttribute('used_g')),
+        })
+      }
+
+      const supportUsed = meta.get('support_used')
+      sliceInfo.set(plateNum, {
+        printTime: number(meta.get('prediction')),
+        weight: number(meta.get('weight')),
+        printerModelId: meta.get('printer_model_id') || undefined,
+        nozzleDiameter: number(meta.get('nozzle_diameters')),
+        supportUsed: supportUsed ? supportUsed === 'true' : undefined,
+        filaments,
+      })
+    }
+  } catch (err) {
+    addDiagnostic(
+      diagnostics,
+      'warning',
+      'part-unreadable',
+      `Could not read slice info: ${errorMessage(err)}`,
+      'Metadata/slice_info.config',
+    )
+  }
+
+  if (sliceInfo.size > 0) {
+    addDiagnostic(
+      diagnostics,
+      'info',
+      'slice-info',
+      `Slicer statistics for ${sliceInfo.size} plates`,
+      'Metadata/slice_info.config',
+    )
+  }
+  return sliceInfo
+}
+
+/**
+ * Plates from `Metadata/plate_N.json`, merged with the `<plate>` blocks of
+ * `model_settings.config` (which supply names, settings and instances, and
+ * the object IDs when the JSON lists none). `filament_sequence.json` only
+ * supplies a plate count when neither has plates.
+ */
 async function parseBambuPlates(
   zipContent: JSZip,
+  diagnostics: ParseDiagnostic[],
 ): Promise<{ plates: Plate[]; plateObjectMap: Map<number, number[]> }> {
   const plates: Plate[] = []
   const plateObjectMap = new Map<number, number[]>()
@@ -513,12 +1934,32 @@ async function parseBambuPlates(
 
         plates.push({ id: plateNum, name: `Plate ${plateNum}`, objectIds })
         plateObjectMap.set(plateNum, objectIds)
-      } catch {
-        /* ignore */
+      } catch (err) {
+        addDiagnostic(
+          diagnostics,
+          'warning',
+          'part-unreadable',
+          `Could not read plate: ${errorMessage(err)}`,
+          platePath,
+        )
       }
     }
   }
 
+  for (const settings of await parsePlateSettings(zipContent, diagnostics)) {
+    const plate = plates.find((p) => p.id === settings.id)
+    if (!plate) {
+      plates.push(settings)
+      plateObjectMap.set(settings.id, settings.objectIds)
+    } else if (plate.objectIds.length > 0) {
+      Object.assign(plate, { ...settings, objectIds: plate.objectIds })
+    } else {
+      Object.assign(plate, settings)
+      plateObjectMap.set(plate.id, settings.objectIds)
+    }
+  }
+  plates.sort((a, b) => a.id - b.id)
+
   if (plates.length === 0) {
     const filamentSeqFile = zipContent.file('Metadata/filament_sequence.json')
     if (filamentSeqFile) {
@@ -533,8 +1974,14 @@ async function parseBambuPlates(
             plateObjectMap.set(plateNum, [])
           }
         }
-      } catch {
-        /* ignore */
+      } catch (err) {
+        addDiagnostic(
+          diagnostics,
+          'warning',
+          'part-unreadable',
+          `Could not read filament sequence: ${errorMessage(err)}`,
+          'Metadata/filament_sequence.json',
+        )
       }
     }
   }
@@ -544,6 +1991,8 @@ async function parseBambuPlates(
 
 async function parsePrusaSlicerMetadata(
   zipContent: JSZip,
+  diagnostics: ParseDiagnostic[],
+  opacities: Map<string, number>,
 ): Promise<{
   volumeRanges: Array<{ firstid: number; lastid: number; extruder: number }>
   extruderColors: string[]
@@ -561,14 +2010,13 @@ async function parsePrusaSlicerMetadata(
     try {
       const content = await zipContent.file(modelConfigFile)?.async('text')
       if (content) {
-        const parser = new DOMParser()
-        const configDoc = parser.parseFromString(content, 'text/xml')
-        configDoc.querySelectorAll('volume').forEach((volume) => {
+        const configDoc = parseXml(content)
+        findElements(configDoc, 'volume').forEach((volume) => {
           const firstid = parseInt(volume.getAttribute('firstid') || '-1')
           const lastid = parseInt(volume.getAttribute('lastid') || '-1')
           if (firstid < 0 || lastid < 0) return
           let extruder = 1
-          for (const meta of Array.from(volume.querySelectorAll('metadata'))) {
+          for (const meta of findElements(volume, 'metadata')) {
             if (meta.getAttribute('key') === 'extruder') {
               extruder = parseInt(meta.getAttribute('value') || meta.textContent || '1')
             }
@@ -576,8 +2024,14 @@ async function parsePrusaSlicerMetadata(
           volumeRanges.push({ firstid, lastid, extruder })
         })
       }
-    } catch {
-      /* ignore */
+    } catch (err) {
+      addDiagnostic(
+        diagnostics,
+        'warning',
+        'part-unreadable',
+        `Could not read volume ranges: ${errorMessage(err)}`,
+        modelConfigFile,
+      )
     }
   }
 
@@ -588,17 +2042,449 @@ async function parsePrusaSlicerMetadata(
       if (!content) continue
       const match = content.match(/extruder_colou?r\s*=\s*(.+)/i)
       if (match) {
-        extruderColors.push(...match[1].split(';').map((c) => normalizeColor(c.trim())))
+        extruderColors.push(...match[1].split(';').map((c) => normalizeColor(c.trim(), opacities)))
         break
       }
-    } catch {
-      /* ignore */
+    } catch (err) {
+      addDiagnostic(
+        diagnostics,
+        'warning',
+        'part-unreadable',
+        `Could not read extruder colours: ${errorMessage(err)}`,
+        configFile,
+      )
     }
   }
 
   return { volumeRanges, extruderColors }
 }
 
+const PAINTING_KEYWORDS = ['mmu_segmentation', 'paint_color', 'mmu_painting', 'FacePainting', 'face_property']
+
+function containsPaintingKeywords(xml: string): boolean {
+  return PAINTING_KEYWORDS.some((keyword) => xml.includes(keyword))
+}
+
+// ---------------------------------------------------------------------------
+// Textures
+// ---------------------------------------------------------------------------
+
+/** Read the images referenced by textured objects. Keyed by package path; missing images are left out. */
+async function loadTextures(
+  zipContent: JSZip,
+  objects: ParsedGeomObject[],
+  textureDefs: Map<string, TextureResource>,
+  diagnostics: ParseDiagnostic[],
+): Promise<Map<string, ThreeMFTexture>> {
+  const textures = new Map<string, ThreeMFTexture>()
+  const usedPaths = new Set(objects.map((obj) => obj.texturePath).filter((p): p is string => !!p))
+
+  for (const path of usedPaths) {
+    const def = textureDefs.get(path)
+    const file = zipContent.file(path.replace(/^\//, ''))
+    if (!def || !file) {
+      addDiagnostic(diagnostics, 'warning', 'texture-missing', 'Texture image not found in package', path)
+      continue
+    }
+    try {
+      const bytes = await file.async('uint8array')
+      textures.set(path, { ...def, image: new Blob([bytes as BlobPart], { type: def.contentType }) })
+    } catch (err) {
+      addDiagnostic(diagnostics, 'warning', 'part-unreadable', `Could not read texture: ${errorMessage(err)}`, path)
+    }
+  }
+
+  if (textures.size > 0) {
+    const count = objects.filter((obj) => obj.texturePath && textures.has(obj.texturePath)).length
+    addDiagnostic(diagnostics, 'info', 'textures', `${count} objects texture-mapped from ${textures.size} images`)
+  }
+  return textures
+}
+
+// ---------------------------------------------------------------------------
+// Thumbnails
+// ---------------------------------------------------------------------------
+
+/** OPC relationship type of a package or part thumbnail. */
+const THUMBNAIL_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail'
+
+/** Slicer plate previews: `plate_N.png`, `plate_N_small.png`, `top_N.png`, `pick_N.png`. */
+const PLATE_IMAGE_PATTERN = /^Metadata\/(plate|top|pick)_(\d+)(_small)?\.png$/i
+const PLATE_IMAGE_KEYS: Record<string, keyof ThreeMFPlateImages> = {
+  plate: 'thumbnail',
+  plate_small: 'small',
+  top: 'top',
+  pick: 'pick',
+}
+
+async function readImage(
+  zipContent: JSZip,
+  path: string,
+  diagnostics: ParseDiagnostic[],
+): Promise<Blob | undefined> {
+  const file = zipContent.file(path)
+  if (!file) return undefined
+  try {
+    const bytes = await file.async('uint8array')
+    const type = /\.jpe?g$/i.test(path) ? 'image/jpeg' : 'image/png'
+    return new Blob([bytes as BlobPart], { type })
+  } catch (err) {
+    addDiagnostic(diagnostics, 'warning', 'part-unreadable', `Could not read image: ${errorMessage(err)}`, path)
+    return undefined
+  }
+}
+
+/**
+ * Read the package thumbnail and the slicer's per-plate preview images.
+ * The thumbnail relationship in `_rels/.rels` wins over
+ * `Metadata/thumbnail.png`; plate images are keyed by plate number.
+ */
+async function loadThumbnails(
+  zipContent: JSZip,
+  zipPathByName: Map<string, string>,
+  diagnostics: ParseDiagnostic[],
+): Promise<{ thumbnail?: Blob; plateImages: Map<number, ThreeMFPlateImages> }> {
+  let thumbnail: Blob | undefined
+  const [target] = await readRelationshipTargets(zipContent, '', THUMBNAIL_RELATIONSHIP_TYPE, diagnostics)
+  if (target) {
+    const path = zipPathByName.get(target.toLowerCase())
+    if (path) thumbnail = await readImage(zipContent, path, diagnostics)
+    else addDiagnostic(diagnostics, 'warning', 'thumbnail-missing', 'Thumbnail relationship target not found', target)
+  }
+  if (!thumbnail) {
+    const path = zipPathByName.get('metadata/thumbnail.png')
+    if (path) thumbnail = await readImage(zipContent, path, diagnostics)
+  }
+
+  const plateImages = new Map<number, ThreeMFPlateImages>()
+  let imageCount = 0
+  for (const path of zipPathByName.values()) {
+    const match = path.match(PLATE_IMAGE_PATTERN)
+    if (!match) continue
+    const plateNum = parseInt(match[2])
+    const key = PLATE_IMAGE_KEYS[`${match[1]}${match[3] ?? ''}`.toLowerCase()]
+    if (plateNum <= 0 || !key) continue
+    const image = await readImage(zipContent, path, diagnostics)
+    if (!image) continue
+    const images = plateImages.get(plateNum) ?? {}
+    images[key] = image
+    plateImages.set(plateNum, images)
+    imageCount++
+  }
+
+  if (thumbnail || imageCount > 0) {
+    addDiagnostic(
+      diagnostics,
+      'info',
+      'thumbnails',
+      `${thumbnail ? 'Package thumbnail, ' : ''}${imageCount} plate preview images`,
+    )
+  }
+  return { thumbnail, plateImages }
+}
+
+// ---------------------------------------------------------------------------
+// G-code
+// ---------------------------------------------------------------------------
+
+/** G-code of a plate in a sliced package (lower-cased part name). */
+const GCODE_PATTERN = /^metadata\/plate_(\d+)\.gcode$/
+
+/**
+ * Attach the G-code of sliced packages to their plates (`Plate.gcode`): the
+ * file, its header block and the result of the `.md5` check. Toolpaths are
+ * left to `loadGcodeToolpath`; with `measureToolpaths` (a package without
+ * geometry) the toolpath size of each plate is returned, for bounds.
+ * A plate's `files.gcode` wins over `Metadata/plate_N.gcode`; G-code for a
+ * plate the package doesn't otherwise describe adds that plate.
+ */
+async function loadPlateGcode(
+  zipContent: JSZip,
+  zipPathByName: Map<string, string>,
+  plates: Plate[],
+  plateObjectMap: Map<number, number[]>,
+  measureToolpaths: boolean,
+  diagnostics: ParseDiagnostic[],
+): Promise<Map<number, BoundingBox>> {
+  const toolpathSizes = new Map<number, BoundingBox>()
+  const pathByPlate = new Map<number, string>()
+  for (const [name, path] of zipPathByName) {
+    const match = name.match(GCODE_PATTERN)
+    if (match) pathByPlate.set(parseInt(match[1]), path)
+  }
+  for (const plate of plates) {
+    const listed = plate.files?.gcode && zipPathByName.get(plate.files.gcode.toLowerCase())
+    if (listed) pathByPlate.set(plate.id, listed)
+  }
+
+  let mismatched = 0
+  for (const [plateNum, path] of [...pathByPlate].sort((a, b) => a[0] - b[0])) {
+    let plate = plates.find((p) => p.id === plateNum)
+    try {
+      const bytes = await zipContent.file(path)!.async('uint8array')
+
+      let checksumValid: boolean | undefined
+      const checksumPath = zipPathByName.get(`${path}.md5`.toLowerCase())
+      if (checksumPath) {
+        const expected = (await zipContent.file(checksumPath)!.async('text')).trim().toLowerCase()
+        checksumValid = md5Hex(bytes) === expected
+        if (!checksumValid) {
+          mismatched++
+          const message = 'G-code does not match its .md5 checksum — the file may be corrupt'
+          addDiagnostic(diagnostics, 'warning', 'gcode-checksum-mismatch', message, path)
+        }
+      }
+
+      if (measureToolpaths) toolpathSizes.set(plateNum, measureGcodeToolpath(new TextDecoder().decode(bytes)))
+
+      if (!plate) {
+        plate = { id: plateNum, name: `Plate ${plateNum}`, objectIds: [] }
+        plates.push(plate)
+        plateObjectMap.set(plateNum, [])
+      }
+      plate.gcode = {
+        path,
+        file: new Blob([bytes as BlobPart], { type: 'text/x.gcode' }),
+        header: parseGcodeHeader(new TextDecoder().decode(bytes.subarray(0, GCODE_HEADER_BYTES))),
+        checksumValid,
+      }
+    } catch (err) {
+      addDiagnostic(diagnostics, 'warning', 'part-unreadable', `Could not read G-code: ${errorMessage(err)}`, path)
+    }
+  }
+  plates.sort((a, b) => a.id - b.id)
+
+  const loaded = plates.filter((p) => p.gcode).length
+  if (loaded > 0) {
+    const checked = mismatched > 0 ? `, ${mismatched} failed the checksum` : ''
+    addDiagnostic(diagnostics, 'info', 'gcode', `G-code for ${loaded} plates${checked}`)
+  }
+  return toolpathSizes
+}
+
+// ---------------------------------------------------------------------------
+// Slice Stacks
+// ---------------------------------------------------------------------------
+
+/** Read the `<s:slicestack>` resources of one model part. `<s:sliceref>`s are returned unresolved. */
+function parseSliceStacks(xmlDoc: XmlDocument): Map<string, SliceStackResource> {
+  const stacks = new Map<string, SliceStackResource>()
+
+  for (const stackElem of findElements(xmlDoc, 'slicestack')) {
+    const id = stackElem.getAttribute('id') || ''
+    if (!id) continue
+
+    const slices: ThreeMFSlice[] = []
+    for (const sliceElem of findElements(stackElem, 'slice')) {
+      // <s:vertices> was streamed as x/y/z triples by MESH_READERS; slices only use x/y
+      const xyz = findElements(sliceElem, 'vertices')[0]?.value as Float32Array | undefined
+      const vertices = new Float32Array(xyz ? (xyz.length / 3) * 2 : 0)
+      for (let i = 0; i < vertices.length / 2; i++) {
+        vertices[i * 2] = xyz![i * 3]
+        vertices[i * 2 + 1] = xyz![i * 3 + 1]
+      }
+      const polygons = findElements(sliceElem, 'polygon').map((polygonElem) => {
+        const segments = (polygonElem.value as Uint32Array | undefined) ?? new Uint32Array(0)
+        const polygon = new Uint32Array(segments.length + 1)
+        polygon[0] = parseInt(polygonElem.getAttribute('startv') || '0') || 0
+        polygon.set(segments, 1)
+        return polygon
+      })
+      slices.push({ zTop: parseFloat(sliceElem.getAttribute('ztop') || '0') || 0, vertices, polygons })
+    }
+
+    const refs = findElements(stackElem, 'sliceref').map((refElem) => ({
+      id: refElem.getAttribute('slicestackid') || '',
+      path: refElem.getAttribute('slicepath') || undefined,
+    }))
+
+    stacks.set(id, {
+      stack: { id: parseInt(id), zBottom: parseFloat(stackElem.getAttribute('zbottom') || '0') || 0, slices },
+      refs,
+    })
+  }
+
+  return stacks
+}
+
+/**
+ * Slice stacks of one model part, keyed by resource ID, with `<s:sliceref>`
+ * layers (usually kept in a separate `/2D/…` part) spliced in.
+ */
+async function loadSliceStacks(
+  zipContent: JSZip,
+  xmlDoc: XmlDocument,
+  diagnostics: ParseDiagnostic[],
+): Promise<Map<string, ThreeMFSliceStack>> {
+  const local = parseSliceStacks(xmlDoc)
+  const parts = new Map<string, Map<string, SliceStackResource>>()
+  const stacks = new Map<string, ThreeMFSliceStack>()
+
+  for (const [id, { stack, refs }] of local) {
+    for (const ref of refs) {
+      const path = ref.path?.replace(/^\//, '')
+      let source = local
+      if (path) {
+        let partStacks = parts.get(path)
+        if (!partStacks) {
+          partStacks = new Map()
+          const file = zipContent.file(path)
+          try {
+            if (file) partStacks = parseSliceStacks(parseXml(await file.async('text'), { readers: MESH_READERS }))
+          } catch (err) {
+            const message = `Could not read slices: ${errorMessage(err)}`
+            addDiagnostic(diagnostics, 'warning', 'part-unreadable', message, path)
+          }
+          parts.set(path, partStacks)
+        }
+        source = partStacks
+      }
+
+      const target = source.get(ref.id)
+      if (target && target.stack !== stack) {
+        stack.slices.push(...target.stack.slices)
+      } else {
+        addDiagnostic(
+          diagnostics,
+          'warning',
+          'slice-ref-missing',
+          `Slice stack ${id} references stack ${ref.id}, which was not found; its layers are left out`,
+          path,
+        )
+      }
+    }
+    stacks.set(id, stack)
+  }
+
+  return stacks
+}
+
+/** Every outline vertex at its layer's bottom and top — enough for bounds and centring. */
+function sliceStackPoints(stack: ThreeMFSliceStack): Float32Array {
+  let count = 0
+  for (const slice of stack.slices) count += slice.vertices.length / 2
+  const points = new Float32Array(count * 6)
+
+  let o = 0
+  let zBottom = stack.zBottom
+  for (const slice of stack.slices) {
+    const v = slice.vertices
+    for (let i = 0; i < v.length; i += 2) {
+      points[o++] = v[i]
+      points[o++] = v[i + 1]
+      points[o++] = zBottom
+      points[o++] = v[i]
+      points[o++] = v[i + 1]
+      points[o++] = slice.zTop
+    }
+    zBottom = slice.zTop
+  }
+  return points
+}
+
+// ---------------------------------------------------------------------------
+// Displacement
+// ---------------------------------------------------------------------------
+
+/**
+ * `<d:disp2dgroup>`s of one model part, keyed by resource ID, with their
+ * height maps decoded. `maps` caches decoded maps across parts; groups whose
+ * map or normals can't be resolved are left out (their triangles stay flat).
+ */
+async function loadDisplacements(
+  zipContent: JSZip,
+  xmlDoc: XmlDocument,
+  maps: Map<string, DisplacementMap | null>,
+  diagnostics: ParseDiagnostic[],
+): Promise<Map<number, DisplacementGroup>> {
+  const groups = new Map<number, DisplacementGroup>()
+  const groupElems = findElements(xmlDoc, 'disp2dgroup')
+  if (groupElems.length === 0) return groups
+
+  const mapElems = new Map(findElements(xmlDoc, 'displacement2d').map((elem) => [elem.getAttribute('id') || '', elem]))
+  const normalGroups = new Map<string, Float32Array>()
+  for (const groupElem of findElements(xmlDoc, 'normvectorgroup')) {
+    const vectors = findElements(groupElem, 'normvector')
+    const normals = new Float32Array(vectors.length * 3)
+    vectors.forEach((vector, i) => {
+      normals[i * 3] = parseFloat(vector.getAttribute('x') || '0') || 0
+      normals[i * 3 + 1] = parseFloat(vector.getAttribute('y') || '0') || 0
+      normals[i * 3 + 2] = parseFloat(vector.getAttribute('z') || '0') || 0
+    })
+    normalGroups.set(groupElem.getAttribute('id') || '', normals)
+  }
+
+  for (const groupElem of groupElems) {
+    const id = parseInt(groupElem.getAttribute('id') || '')
+    const mapElem = mapElems.get(groupElem.getAttribute('dispid') || '')
+    const map = mapElem && (await loadDisplacementMap(zipContent, mapElem, maps, diagnostics))
+    const normals = normalGroups.get(groupElem.getAttribute('nid') || '')
+    if (!(id >= 0) || !map || !normals) {
+      const label = groupElem.getAttribute('id') || '(no id)'
+      const message = `Displacement group ${label} has no usable map or normals; its triangles are left flat`
+      addDiagnostic(diagnostics, 'warning', 'displacement-unresolved', message)
+      continue
+    }
+
+    const coordElems = findElements(groupElem, 'disp2dcoord')
+    const coords = new Float32Array(coordElems.length * 4)
+    coordElems.forEach((coord, i) => {
+      coords[i * 4] = parseFloat(coord.getAttribute('u') || '0') || 0
+      coords[i * 4 + 1] = parseFloat(coord.getAttribute('v') || '0') || 0
+      coords[i * 4 + 2] = parseInt(coord.getAttribute('n') || '0') || 0
+      const factor = parseFloat(coord.getAttribute('f') || '')
+      coords[i * 4 + 3] = isFinite(factor) ? factor : 1
+    })
+
+    groups.set(id, {
+      map,
+      normals,
+      height: parseFloat(groupElem.getAttribute('height') || '0') || 0,
+      offset: parseFloat(groupElem.getAttribute('offset') || '0') || 0,
+      coords,
+    })
+  }
+
+  return groups
+}
+
+/** Decode a `<d:displacement2d>` PNG to its `channel` (default `G`), or `null` when it can't be read. */
+async function loadDisplacementMap(
+  zipContent: JSZip,
+  mapElem: XmlElement,
+  maps: Map<string, DisplacementMap | null>,
+  diagnostics: ParseDiagnostic[],
+): Promise<DisplacementMap | null> {
+  const path = resolvePartName(mapElem.getAttribute('path') || '')
+  const channelAttr = mapElem.getAttribute('channel')
+  const channel: ImageChannel = channelAttr === 'R' || channelAttr === 'B' || channelAttr === 'A' ? channelAttr : 'G'
+  const key = `${path}#${channel}`
+  if (maps.has(key)) return maps.get(key)!
+
+  let map: DisplacementMap | null = null
+  const file = zipContent.file(path)
+  if (!file) {
+    addDiagnostic(diagnostics, 'warning', 'texture-missing', 'Displacement map not found in package', path)
+  } else {
+    try {
+      const { width, height, values } = await decodePngChannel(await file.async('uint8array'), channel)
+      map = {
+        width,
+        height,
+        values,
+        tileStyleU: parseTileStyle(mapElem.getAttribute('tilestyleu')),
+        tileStyleV: parseTileStyle(mapElem.getAttribute('tilestylev')),
+        filter: (['linear', 'nearest'] as const).find((f) => f === mapElem.getAttribute('filter')) ?? 'auto',
+      }
+    } catch (err) {
+      const message = `Could not decode displacement map: ${errorMessage(err)}`
+      addDiagnostic(diagnostics, 'warning', 'part-unreadable', message, path)
+    }
+  }
+  maps.set(key, map)
+  return map
+}
+
 // ---------------------------------------------------------------------------
 // Paint Color / MMU Segmentation Decoder
 // ---------------------------------------------------------------------------
@@ -684,9 +2570,18 @@ function decodePaintColorAttr(hexStr: string): number {
  * Works with files exported from **Bambu Studio**, **PrusaSlicer**, **Cura**,
  * and any other slicer that follows the 3MF Core Specification.
  *
- * @param file  A `File` object (e.g. from an `<input type="file">`)
+ * Runs anywhere JSZip does — browsers, web workers and Node.js — since XML is
+ * read with the built-in reader rather than `DOMParser`.
+ *
+ * @param file     A `File`/`Blob` (e.g. from an `<input type="file">`), or the
+ *                 raw bytes as an `ArrayBuffer`, `Uint8Array` or Node `Buffer`
+ * @param options  See {@link Parse3MFOptions}.
  * @returns     A {@link ParsedThreeMF} containing everything needed to render
  *              the model.
+ * @throws {ThreeMFParseError} If the file is not a ZIP package, has no 3D
+ *              model part, or its start part is missing or not a `<model>`.
+ * @throws {ThreeMFEncryptedError} If the package has Secure Content parts and
+ *              `options.decrypt` is missing or fails.
  *
  * @example
  * ```ts
@@ -697,249 +2592,563 @@ function decodePaintColorAttr(hexStr: string): number {
  * console.log(result.materialSlots) // [{ id: '#FF0000', name: 'Color 1', ... }, ...]
  * ```
  */
-export async function parse3MF(file: File): Promise<ParsedThreeMF> {
+export async function parse3MF(file: ThreeMFSource, options: Parse3MFOptions = {}): Promise<ParsedThreeMF> {
+  const { normalizeUnits = true, signal, displacementResolution = 0.5 } = options
+  const report = createProgressReporter(options.onProgress)
+  const diagnostics: ParseDiagnostic[] = []
+
   try {
-    const arrayBuffer = await file.arrayBuffer()
-    const zip = new JSZip()
-    const zipContent = await zip.loadAsync(arrayBuffer)
+    throwIfAborted(signal)
+    report('unzip', 0)
+    const data = file instanceof ArrayBuffer || file instanceof Uint8Array ? file : await file.arrayBuffer()
+    let zipContent: JSZip
+    try {
+      zipContent = await new JSZip().loadAsync(data)
+    } catch (err) {
+      throw new ThreeMFParseError(`Invalid .3MF file: not a ZIP package (${errorMessage(err)})`)
+    }
     const zipFiles = Object.keys(zipContent.files)
+    // OPC part names ignore case; zip entries don't
+    const zipPathByName = new Map(
+      zipFiles.filter((f) => !zipContent.files[f].dir).map((f) => [f.toLowerCase(), f] as [string, string]),
+    )
+    const encryptedResources = await readKeystore(zipContent, zipPathByName, diagnostics)
+    if (encryptedResources.length > 0) {
+      await decryptParts(zipContent, encryptedResources, options.decrypt, signal)
+      const message = `${encryptedResources.length} Secure Content parts decrypted`
+      addDiagnostic(diagnostics, 'info', 'secure-content', message)
+    }
+    throwIfAborted(signal)
+    report('unzip', 1)
 
     // -----------------------------------------------------------------------
     // Step 1: Find main model file
     // -----------------------------------------------------------------------
-    let mainModelPath = '3D/3dmodel.model'
-    let mainModelFile = zipContent.file(mainModelPath)
-    if (!mainModelFile) {
-      mainModelPath = '3D/3dModel.model'
-      mainModelFile = zipContent.file(mainModelPath)
-    }
-    if (!mainModelFile) {
-      const modelFiles = zipFiles.filter((f) => f.endsWith('.model') && f.startsWith('3D/'))
-      if (modelFiles.length > 0) {
-        mainModelPath = modelFiles[0]
-        mainModelFile = zipContent.file(mainModelPath)
-      }
+    const mainModelPath = await findMainModelPath(zipContent, zipPathByName, diagnostics)
+    const mainModelFile = zipContent.file(mainModelPath)!
+
+    // Decompression reports 0–70% of the stage; the XML parse is the rest
+    const mainXML = await mainModelFile.async('text', (meta) => report('model', (meta.percent / 100) * 0.7))
+    throwIfAborted(signal)
+    const mainDoc = parseXml(mainXML, { readers: MESH_READERS })
+    const rootElement = mainDoc.documentElement
+    if (rootElement?.localName !== 'model') {
+      const found = rootElement ? `<${rootElement.tagName}>` : 'no XML'
+      throw new ThreeMFParseError(`Invalid .3MF file: ${mainModelPath} holds ${found} instead of a <model>`)
     }
-    if (!mainModelFile) throw new ThreeMFParseError('Invalid .3MF file: no model file found')
-
-    const mainXML = await mainModelFile.async('text')
-    const domParser = new DOMParser()
-    const mainDoc = domParser.parseFromString(mainXML, 'text/xml')
+    report('model', 1)
+    let hasPaintingKeywords = containsPaintingKeywords(mainXML)
+    const scannedModelPaths = new Set([mainModelPath])
+    const unit = parseUnit(mainDoc)
 
     // -----------------------------------------------------------------------
-    // Step 2: Parse resources
+    // Step 2: Parse resources + package metadata
     // -----------------------------------------------------------------------
-    const mainResources = parseResources(mainDoc)
+    // Alpha bytes stripped from colours anywhere in the package, for MaterialSlot.opacity
+    const opacityByColor = new Map<string, number>()
+    const mainResources = parseResources(mainDoc, opacityByColor)
+    const textureDefs = new Map<string, TextureResource>()
+    mainResources.forEach((res) => res.texture && textureDefs.set(res.texture.path, res.texture))
+    const mixturesByColor = new Map<string, MaterialMixture>()
+    collectMixtures(mainResources, mixturesByColor)
+    const mainSliceStacks = await loadSliceStacks(zipContent, mainDoc, diagnostics)
+    const displacementMaps = new Map<string, DisplacementMap | null>()
+    const mainDisplacements = await loadDisplacements(zipContent, mainDoc, displacementMaps, diagnostics)
+
+    const coreFile = zipContent.file('docProps/core.xml')
+    const coreDoc = coreFile ? parseXml(await coreFile.async('text')) : null
+    const metadata = parsePackageMetadata(mainDoc, coreDoc)
 
     // -----------------------------------------------------------------------
-    // Step 3: Build section + composites
+    // Step 3: Build section
     // -----------------------------------------------------------------------
+    const buildElem = findElements(mainDoc, 'build')[0]
+    const buildUuid = (buildElem && getAttributeByLocalName(buildElem, 'UUID')) || undefined
     const buildItems: BuildItem[] = []
-    const buildElems = findElements(mainDoc, 'build')
-    if (buildElems.length > 0) {
-      for (const item of findElements(buildElems[0], 'item')) {
-        const objectId = parseInt(item.getAttribute('objectid') || '0')
-        if (objectId > 0) {
-          buildItems.push({ objectId, transform: item.getAttribute('transform') || undefined })
-        }
-      }
+    for (const item of buildElem ? findElements(buildElem, 'item') : []) {
+      const objectId = parseInt(item.getAttribute('objectid') || '0')
+      if (objectId <= 0) continue
+      const path = getAttributeByLocalName(item, 'path')
+      buildItems.push({
+        objectId,
+        path: path ? resolvePartName(path, mainModelPath) : undefined,
+        uuid: getAttributeByLocalName(item, 'UUID') || undefined,
+        transform: parseTransform(item.getAttribute('transform')),
+      })
     }
 
-    const compositeToGeometryMap = new Map<number, number[]>()
-    const componentColorOverrides = new Map<number, string>()
-
-    for (const objElem of findElements(mainDoc, 'object')) {
-      const objId = parseInt(objElem.getAttribute('id') || '0')
-      if (objId <= 0) continue
-
-      const components = parseComponents(objElem)
-      if (components.length === 0) continue
+    // -----------------------------------------------------------------------
+    // Step 4: Parse ALL geometry objects, part by part
+    // -----------------------------------------------------------------------
+    // Other model parts are reached through the root model's relationships and `p:path` references
+    const partIndex: ModelPartIndex = {
+      objectIds: new Map(),
+      uuids: new Map(),
+      composites: [],
+      colorOverrides: new Map(),
+    }
+    const knownParts = new Set([mainModelPath.toLowerCase()])
+    const pendingParts: string[] = []
+    const discoverPart = (part: string) => {
+      if (knownParts.has(part.toLowerCase())) return
+      knownParts.add(part.toLowerCase())
+      pendingParts.push(zipPathByName.get(part.toLowerCase()) ?? part)
+    }
+    const relatedParts = await readRelationshipTargets(zipContent, mainModelPath, MODEL_RELATIONSHIP_TYPE, diagnostics)
+    relatedParts.forEach(discoverPart)
+    indexModelPart(mainDoc, mainModelPath, mainResources, partIndex).forEach(discoverPart)
+    buildItems.forEach((item) => item.path && discoverPart(item.path))
+
+    const allGeomObjects: ParsedGeomObject[] = parseGeometryObjects(
+      mainDoc,
+      mainResources,
+      mainSliceStacks,
+      { groups: mainDisplacements, edgeLength: displacementResolution / UNIT_TO_MM[unit] },
+      partColorOverrides(partIndex, mainModelPath),
+    )
 
-      const geomIds: number[] = []
-      for (const comp of components) {
-        geomIds.push(comp.objectId)
-        if (comp.pid) {
-          const overrideColor = resolveColor(comp.pid, comp.pindex || 0, mainResources)
-          if (overrideColor) componentColorOverrides.set(comp.objectId, overrideColor)
+    let fallbackChecked = false
+    let loadedParts = 0
+    while (pendingParts.length > 0 || !fallbackChecked) {
+      if (pendingParts.length === 0) {
+        // Older exporters leave parts unreferenced; fall back to the 3D/Objects/ naming convention
+        fallbackChecked = true
+        const unreferenced = zipFiles
+          .filter((f) => f.startsWith('3D/Objects/') && f.endsWith('.model') && !knownParts.has(f.toLowerCase()))
+          .sort()
+        if (unreferenced.length > 0) {
+          addDiagnostic(
+            diagnostics,
+            'info',
+            'model-part-unreferenced',
+            `${unreferenced.length} model parts in 3D/Objects/ have no relationship or p:path; loaded by location`,
+          )
         }
+        unreferenced.forEach(discoverPart)
+        continue
       }
-      compositeToGeometryMap.set(objId, geomIds)
-    }
 
-    // -----------------------------------------------------------------------
-    // Step 4: Parse ALL geometry objects
-    // -----------------------------------------------------------------------
-    let allGeomObjects: ParsedGeomObject[] = []
+      throwIfAborted(signal)
+      report('external', loadedParts / (loadedParts + pendingParts.length))
+      const filePath = pendingParts.shift()!
+      loadedParts++
+      const extFile = zipContent.file(filePath)
+      if (!extFile) {
+        const message = 'Referenced model part is not in the package'
+        addDiagnostic(diagnostics, 'warning', 'model-part-missing', message, filePath)
+        continue
+      }
 
-    const mainGeomObjects = parseGeometryObjects(mainDoc, mainResources)
-    allGeomObjects.push(...mainGeomObjects)
+      const xml = await extFile.async('text')
+      const doc = parseXml(xml, { readers: MESH_READERS })
+      if (containsPaintingKeywords(xml)) hasPaintingKeywords = true
+      scannedModelPaths.add(filePath)
+
+      const fileResources = parseResources(doc, opacityByColor)
+      fileResources.forEach((res) => res.texture && textureDefs.set(res.texture.path, res.texture))
+      collectMixtures(fileResources, mixturesByColor)
+
+      const mergedResources = new Map(mainResources)
+      fileResources.forEach((res, id) => mergedResources.set(id, res))
+      const fileSliceStacks = await loadSliceStacks(zipContent, doc, diagnostics)
+      const mergedSliceStacks = new Map([...mainSliceStacks, ...fileSliceStacks])
+      const fileDisplacements = await loadDisplacements(zipContent, doc, displacementMaps, diagnostics)
+      const fileUnitMm = UNIT_TO_MM[parseUnit(doc)]
+      const displacement = {
+        groups: new Map([...mainDisplacements, ...fileDisplacements]),
+        edgeLength: displacementResolution / fileUnitMm,
+      }
 
-    const externalObjectFiles = zipFiles
-      .filter((f) => f.startsWith('3D/Objects/') && f.endsWith('.model'))
-      .sort()
+      indexModelPart(doc, filePath, mergedResources, partIndex).forEach(discoverPart)
+      const overrides = partColorOverrides(partIndex, filePath)
+      const fileObjects = parseGeometryObjects(doc, mergedResources, mergedSliceStacks, displacement, overrides)
 
-    const externalIdRemap = new Map<number, number>()
+      // Each model part may declare its own unit — bring it into the root's
+      const fileScale = fileUnitMm / UNIT_TO_MM[unit]
+      if (fileScale !== 1) fileObjects.forEach((obj) => scaleVertices(obj, fileScale))
 
-    if (externalObjectFiles.length > 0) {
-      const mainGeomIds = new Set(mainGeomObjects.map((o) => o.id))
+      for (const obj of fileObjects) allGeomObjects.push({ ...obj, sourceFile: filePath })
+    }
 
-      for (const filePath of externalObjectFiles) {
-        const fileIdMatch = filePath.match(/object_(\d+)\.model/)
-        const fileId = fileIdMatch ? parseInt(fileIdMatch[1]) : 0
-        if (mainGeomIds.has(fileId)) continue
+    throwIfAborted(signal)
+    report('external', 1)
+
+    // Object IDs are scoped to their part. Each keeps its ID where it is free — the only object of an
+    // `object_N.model` part takes N, as older Bambu packages (and model_settings.config) number it — and
+    // clashes are renumbered past the highest ID
+    const preferredIds = new Map<string, number>()
+    const fileIdParts = new Map<number, string>()
+    for (const [part, ids] of partIndex.objectIds) {
+      const fileId = parseInt(part.match(/object_(\d+)\.model$/i)?.[1] ?? '')
+      const named = fileId > 0 && new Set(ids).size === 1
+      if (named && !fileIdParts.has(fileId)) fileIdParts.set(fileId, part)
+      for (const id of ids) preferredIds.set(partKey(part, id), named ? fileId : id)
+    }
+    const objectIdByKey = new Map<string, number>()
+    const firstIdByLocalId = new Map<number, number>()
+    let nextFreeId = 1
+    preferredIds.forEach((id) => (nextFreeId = Math.max(nextFreeId, id + 1)))
+    partIndex.objectIds.forEach((ids) => ids.forEach((id) => (nextFreeId = Math.max(nextFreeId, id + 1))))
+    const takenIds = new Set<number>()
+    let renumberedObjects = 0
+    for (const [part, ids] of partIndex.objectIds) {
+      for (const id of ids) {
+        const key = partKey(part, id)
+        if (objectIdByKey.has(key)) continue
+        const preferred = preferredIds.get(key)!
+        const globalId = takenIds.has(preferred) ? nextFreeId++ : preferred
+        if (globalId !== preferred) renumberedObjects++
+        takenIds.add(globalId)
+        objectIdByKey.set(key, globalId)
+        if (!firstIdByLocalId.has(id)) firstIdByLocalId.set(id, globalId)
+      }
+    }
 
-        const extFile = zipContent.file(filePath)
-        if (!extFile) continue
+    // Files without p:path still point at objects in other parts by bare ID: the referring part's own object
+    // (never the referrer itself), else the `object_N.model` part for N, else the first part with that local ID
+    let unpathedReferences = 0
+    const resolveObjectId = (
+      part: string,
+      ref: { objectId: number; path?: string },
+      referrer?: number,
+    ): number | undefined => {
+      const id = objectIdByKey.get(partKey(ref.path ?? part, ref.objectId))
+      if (ref.path || (id !== undefined && ref.objectId !== referrer)) return id
+      const filePart = fileIdParts.get(ref.objectId)
+      const fallbackId = filePart
+        ? objectIdByKey.get(partKey(filePart, partIndex.objectIds.get(filePart)![0]))
+        : firstIdByLocalId.get(ref.objectId)
+      if (fallbackId !== undefined) unpathedReferences++
+      return fallbackId ?? id
+    }
 
-        const xml = await extFile.async('text')
-        const doc = domParser.parseFromString(xml, 'text/xml')
+    for (const obj of allGeomObjects) {
+      obj.id = objectIdByKey.get(partKey(obj.sourceFile ?? mainModelPath, obj.id)) ?? obj.id
+    }
 
-        const fileResources = parseResources(doc)
-        let componentOverride = componentColorOverrides.get(fileId) || null
-        if (!componentOverride) {
-          for (const [compObjId, color] of componentColorOverrides) {
-            if (compositeToGeometryMap.has(compObjId)) continue
-            componentOverride = color
-            break
-          }
-        }
+    const compositeToGeometryMap = new Map<number, number[]>()
+    const objectComponents = new Map<number, ComponentRef[]>()
+    let missingComponents = 0
+    for (const { part, objectId, components } of partIndex.composites) {
+      const compositeId = objectIdByKey.get(partKey(part, objectId))
+      if (compositeId === undefined) continue
+      const resolved: ComponentRef[] = []
+      for (const comp of components) {
+        const childId = resolveObjectId(part, comp, objectId)
+        if (childId === undefined) missingComponents++
+        else resolved.push({ ...comp, objectId: childId })
+      }
+      compositeToGeometryMap.set(compositeId, resolved.map((comp) => comp.objectId))
+      objectComponents.set(compositeId, resolved)
+    }
 
-        const mergedResources = new Map(mainResources)
-        fileResources.forEach((res, id) => mergedResources.set(id, res))
+    const placedItems: BuildItem[] = []
+    const resultBuildItems: ThreeMFBuildItem[] = []
+    for (const item of buildItems) {
+      const objectId = resolveObjectId(mainModelPath, item)
+      if (objectId === undefined) {
+        missingComponents++
+        continue
+      }
+      placedItems.push({ ...item, objectId })
+      resultBuildItems.push({ objectId, uuid: item.uuid, path: item.path })
+    }
 
-        const fileObjects = parseGeometryObjects(doc, mergedResources, componentOverride)
+    const objectUuids = new Map<number, string>()
+    partIndex.uuids.forEach((uuid, key) => {
+      const objectId = objectIdByKey.get(key)
+      if (objectId !== undefined) objectUuids.set(objectId, uuid)
+    })
 
-        for (const obj of fileObjects) {
-          const mappedId = fileObjects.length === 1 && fileId > 0 ? fileId : obj.id
-          allGeomObjects.push({ ...obj, id: mappedId, sourceFile: filePath })
-          if (mappedId !== obj.id) externalIdRemap.set(obj.id, mappedId)
-        }
-      }
+    const hasGcode = [...zipPathByName.keys()].some((name) => GCODE_PATTERN.test(name))
+    if (allGeomObjects.length === 0 && !hasGcode) {
+      throw new ThreeMFParseError('No geometry objects found in 3MF file')
+    }
+    if (allGeomObjects.length === 0) {
+      addDiagnostic(diagnostics, 'info', 'gcode-only', 'Sliced package without geometry; previewing its G-code')
     }
 
-    // Fix composite map with remapped IDs
-    if (externalIdRemap.size > 0) {
-      compositeToGeometryMap.forEach((geomIds, compositeId) => {
-        compositeToGeometryMap.set(
-          compositeId,
-          geomIds.map((id) => externalIdRemap.get(id) ?? id),
-        )
-      })
+    const xmlColoredObjects = allGeomObjects.filter((obj) => obj.triangleColors.some((c) => c !== null)).length
+    if (xmlColoredObjects > 0) {
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'xml-colors',
+        `Path 1: ${xmlColoredObjects} of ${allGeomObjects.length} objects coloured from basematerials/colorgroup`,
+      )
+    }
+    const gradientObjects = allGeomObjects.filter((obj) => obj.vertexColors).length
+    if (gradientObjects > 0) {
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'vertex-colors',
+        `${gradientObjects} objects carry per-vertex colour gradients (p1/p2/p3)`,
+      )
+    }
+    const slicedObjects = allGeomObjects.filter((obj) => obj.sliceStack)
+    if (slicedObjects.length > 0) {
+      const meshless = slicedObjects.filter((obj) => obj.indices.length === 0).length
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'slice-stacks',
+        `${slicedObjects.length} objects carry Slice extension layers` +
+          (meshless > 0 ? `; ${meshless} have no mesh, so their volume comes from the slice areas` : ''),
+      )
+    }
+    const typeCounts = new Map<ThreeMFObjectType, number>()
+    for (const obj of allGeomObjects) {
+      if (obj.type !== 'model') typeCounts.set(obj.type, (typeCounts.get(obj.type) ?? 0) + 1)
+    }
+    if (typeCounts.size > 0) {
+      const counts = [...typeCounts].map(([type, count]) => `${count} ${type}`).join(', ')
+      addDiagnostic(diagnostics, 'info', 'object-types', `Non-model objects kept out of volume: ${counts}`)
+    }
+    const displacedObjects = allGeomObjects.filter((obj) => obj.displacementSegments)
+    if (displacedObjects.length > 0) {
+      const segments = Math.max(...displacedObjects.map((obj) => obj.displacementSegments!))
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'displacement',
+        `${displacedObjects.length} objects displaced; triangles split into up to ${segments}×${segments}`,
+      )
+    }
+    const setCount = allGeomObjects.reduce((sum, obj) => sum + (obj.triangleSets?.length ?? 0), 0)
+    if (setCount > 0) {
+      const setObjects = allGeomObjects.filter((obj) => obj.triangleSets).length
+      addDiagnostic(diagnostics, 'info', 'triangle-sets', `${setCount} triangle sets on ${setObjects} objects`)
+    }
+    if (partIndex.colorOverrides.size > 0) {
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'component-colors',
+        `Path 7: ${partIndex.colorOverrides.size} component pid/pindex colours applied to their objects`,
+      )
+    }
+    if (partIndex.objectIds.size > 1) {
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'model-parts',
+        `${partIndex.objectIds.size - 1} other model parts loaded` +
+          (renumberedObjects > 0 ? `; ${renumberedObjects} object IDs clashed across parts and were renumbered` : ''),
+      )
+    }
+    if (unpathedReferences > 0) {
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'component-path-missing',
+        `${unpathedReferences} components or items reference another part's object without a p:path; matched by ID`,
+      )
+    }
+    if (missingComponents > 0) {
+      addDiagnostic(
+        diagnostics,
+        'warning',
+        'component-missing',
+        `${missingComponents} components or build items reference objects that were not found; they are left out`,
+      )
     }
 
-    if (allGeomObjects.length === 0) {
-      throw new ThreeMFParseError('No geometry objects found in 3MF file')
+    // Apply item + component transforms so parts sit where the slicer placed them
+    const placements = resolvePlacements(placedItems, objectComponents)
+    for (const obj of allGeomObjects) {
+      const matrix = placements.get(obj.id)
+      if (matrix && !matrix.equals(IDENTITY)) applyPlacement(obj, matrix)
     }
 
+    // Everything downstream (volume, bounding box) assumes millimetres
+    const unitToMM = UNIT_TO_MM[unit]
+    if (normalizeUnits && unitToMM !== 1) {
+      allGeomObjects.forEach((obj) => scaleVertices(obj, unitToMM))
+      placements.forEach((matrix, id) => {
+        const scaled = matrix.clone()
+        scaled.elements[12] *= unitToMM
+        scaled.elements[13] *= unitToMM
+        scaled.elements[14] *= unitToMM
+        placements.set(id, scaled)
+      })
+    }
+    const outputScale = normalizeUnits ? 1 : unitToMM
+
     // -----------------------------------------------------------------------
     // Step 5: Slicer-specific coloring
     // -----------------------------------------------------------------------
 
     // 5a: Bambu Studio extruder assignments
-    const modelSettings = await parseModelSettings(zipContent)
-
-    // Scan model files for painting keywords
-    const allModelFiles = zipFiles.filter((f) => f.endsWith('.model'))
+    report('config', 0)
+    const modelSettings = await parseModelSettings(zipContent, diagnostics)
+    throwIfAborted(signal)
+    report('config', 0.25)
+
+    // Scan model files for painting keywords (parsed parts were checked while loaded)
+    if (hasPaintingKeywords) modelSettings.hasMmuSegmentation = true
+    const allModelFiles = zipFiles.filter((f) => f.endsWith('.model') && !scannedModelPaths.has(f))
     for (const modelPath of allModelFiles) {
       try {
         const modelFile = zipContent.file(modelPath)
         if (!modelFile) continue
         const xml = await modelFile.async('text')
-        const paintingKeywords = ['mmu_segmentation', 'paint_color', 'mmu_painting', 'FacePainting', 'face_property']
-        for (const keyword of paintingKeywords) {
-          if (xml.includes(keyword)) modelSettings.hasMmuSegmentation = true
-        }
-      } catch {
-        /* ignore */
+        if (containsPaintingKeywords(xml)) modelSettings.hasMmuSegmentation = true
+      } catch (err) {
+        addDiagnostic(
+          diagnostics,
+          'warning',
+          'part-unreadable',
+          `Could not scan for painting: ${errorMessage(err)}`,
+          modelPath,
+        )
       }
     }
 
-    const filamentData = await extractFilamentColors(zipContent)
+    throwIfAborted(signal)
+    report('config', 0.5)
+    const filamentData = await extractFilamentColors(zipContent, diagnostics, opacityByColor)
+    const filaments = await parseFilamentProfiles(zipContent, diagnostics, opacityByColor)
+    throwIfAborted(signal)
+    report('config', 0.75)
     const filamentColors = filamentData.colors
     const filamentCount = filamentData.filamentCount
     const hasMultipleExtruders = modelSettings.distinctExtruders.size > 1
     const hasMultipleFilaments = filamentCount > 1
 
+    if (filamentColors.length > 0) {
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'filament-colors',
+        `Path 2: ${filamentColors.length} filament colours (${filamentColors.join(', ')})`,
+        filamentData.source,
+      )
+    } else if (filamentCount > 1) {
+      addDiagnostic(
+        diagnostics,
+        'info',
+        'filament-count',
+        `Path 5: ${filamentCount} filaments inferred from setting array lengths, but no filament colours`,
+        filamentData.source,
+      )
+    }
+    if (modelSettings.objectExtruderMap.size > 0) {
+      addDiagnostic(
+        diagnostics,
+        filamentColors.length > 0 ? 'info' : 'warning',
+        'extruder-assignments',
+        `Path 3: ${modelSettings.objectExtruderMap.size} object/part extruder assignments ` +
+          `(extruders ${[...modelSettings.distinctExtruders].sort((a, b) => a - b).join(', ')})` +
+          (filamentColors.length > 0 ? '' : ' — ignored, no filament colours'),
+        'Metadata/model_settings.config',
+      )
+    }
+
+    // An object's extruder: its own, its composite's, else that of the `object_N.model` part it came from
+    // (model_settings.config numbers by file when a part holds several objects or its ID was renumbered)
+    const objectExtruder = (obj: ParsedGeomObject): number | undefined => {
+      let extruder = modelSettings.objectExtruderMap.get(obj.id)
+      if (extruder === undefined) {
+        compositeToGeometryMap.forEach((geomIds, compositeId) => {
+          if (geomIds.includes(obj.id)) {
+            const cExt = modelSettings.objectExtruderMap.get(compositeId)
+            if (cExt !== undefined) extruder = cExt
+          }
+        })
+      }
+      if (extruder === undefined && obj.sourceFile) {
+        const fMatch = obj.sourceFile.match(/object_(\d+)\.model/)
+        const fId = fMatch ? parseInt(fMatch[1]) : 0
+        if (fId > 0 && fId !== obj.id) extruder = modelSettings.objectExtruderMap.get(fId)
+      }
+      return extruder
+    }
+
     // Apply extruder-based coloring
     if (modelSettings.objectExtruderMap.size > 0 && filamentColors.length > 0) {
       allGeomObjects.forEach((obj) => {
-        let extruder = modelSettings.objectExtruderMap.get(obj.id)
-        if (extruder === undefined) {
-          compositeToGeometryMap.forEach((geomIds, compositeId) => {
-            if (geomIds.includes(obj.id)) {
-              const cExt = modelSettings.objectExtruderMap.get(compositeId)
-              if (cExt !== undefined) extruder = cExt
-            }
-          })
-        }
-        if (extruder === undefined && obj.sourceFile) {
-          const fMatch = obj.sourceFile.match(/object_(\d+)\.model/)
-          const fId = fMatch ? parseInt(fMatch[1]) : 0
-          if (fId > 0 && fId !== obj.id) extruder = modelSettings.objectExtruderMap.get(fId)
-        }
+        const extruder = objectExtruder(obj)
         if (extruder !== undefined && extruder > 0 && extruder <= filamentColors.length) {
           const color = filamentColors[extruder - 1]
-          if (!obj.triangles.some((t) => t.colorHex !== null)) {
-            obj.triangles.forEach((t) => { t.colorHex = color })
-          }
+          if (!obj.triangleColors.some((c) => c !== null)) obj.triangleColors.fill(color)
         }
       })
     }
 
     // 5b: PrusaSlicer volume mapping
-    const prusaData = await parsePrusaSlicerMetadata(zipContent)
+    const prusaData = await parsePrusaSlicerMetadata(zipContent, diagnostics, opacityByColor)
+    throwIfAborted(signal)
+    report('config', 1)
+    if (prusaData.volumeRanges.length > 0) {
+      addDiagnostic(
+        diagnostics,
+        prusaData.extruderColors.length > 0 ? 'info' : 'warning',
+        'prusa-volumes',
+        `Path 6: ${prusaData.volumeRanges.length} PrusaSlicer volume ranges` +
+          (prusaData.extruderColors.length > 0
+            ? ` with ${prusaData.extruderColors.length} extruder colours`
+            : ' — ignored, no extruder_colour found'),
+      )
+    }
     if (prusaData.volumeRanges.length > 0 && prusaData.extruderColors.length > 0) {
       let globalTriOffset = 0
       allGeomObjects.forEach((obj) => {
-        if (obj.triangles.some((t) => t.colorHex !== null)) {
-          globalTriOffset += obj.triangles.length
+        const colors = obj.triangleColors
+        if (colors.some((c) => c !== null)) {
+          globalTriOffset += colors.length
           return
         }
-        for (let i = 0; i < obj.triangles.length; i++) {
+        for (let i = 0; i < colors.length; i++) {
           const globalIdx = globalTriOffset + i
           for (const range of prusaData.volumeRanges) {
             if (globalIdx >= range.firstid && globalIdx <= range.lastid) {
               const color = prusaData.extruderColors[range.extruder - 1]
-              if (color) obj.triangles[i].colorHex = color
+              if (color) colors[i] = color
               break
             }
           }
         }
-        globalTriOffset += obj.triangles.length
+        globalTriOffset += colors.length
       })
     }
 
     // 5c: Paint data attributes
+    const paintedTriangles = allGeomObjects.reduce((sum, obj) => sum + (obj.paintAttrs?.size ?? 0), 0)
+    if (paintedTriangles > 0) {
+      addDiagnostic(
+        diagnostics,
+        filamentColors.length > 0 ? 'info' : 'warning',
+        'paint-colors',
+        `Path 4: ${paintedTriangles} painted triangles` +
+          (filamentColors.length > 0 ? ' decoded to filament colours' : ' — ignored, no filament colours'),
+      )
+    }
     if (filamentColors.length >= 1) {
       for (const obj of allGeomObjects) {
-        if (!obj.triangles.some((t) => t.paintAttr)) continue
+        const paintAttrs = obj.paintAttrs
+        if (!paintAttrs || paintAttrs.size === 0) continue
 
         let defaultColor = filamentColors[0]
-        let objExtruder = modelSettings.objectExtruderMap.get(obj.id)
-        if (objExtruder === undefined) {
-          compositeToGeometryMap.forEach((geomIds, compositeId) => {
-            if (geomIds.includes(obj.id)) {
-              const cExt = modelSettings.objectExtruderMap.get(compositeId)
-              if (cExt !== undefined) objExtruder = cExt
-            }
-          })
-        }
+        const objExtruder = objectExtruder(obj)
         if (objExtruder !== undefined && objExtruder > 0 && objExtruder <= filamentColors.length) {
           defaultColor = filamentColors[objExtruder - 1]
         }
 
-        for (const tri of obj.triangles) {
-          if (tri.paintAttr) {
-            const state = decodePaintColorAttr(tri.paintAttr)
+        const colors = obj.triangleColors
+        for (let t = 0; t < colors.length; t++) {
+          const paintAttr = paintAttrs.get(t)
+          if (paintAttr) {
+            const state = decodePaintColorAttr(paintAttr)
             if (state > 0 && state <= filamentColors.length) {
-              tri.colorHex = filamentColors[state - 1]
+              colors[t] = filamentColors[state - 1]
             } else if (state > 0) {
-              tri.colorHex = filamentColors[filamentColors.length - 1]
+              colors[t] = filamentColors[filamentColors.length - 1]
             } else {
-              tri.colorHex = defaultColor
+              colors[t] = defaultColor
             }
-          } else if (tri.colorHex === null) {
-            tri.colorHex = defaultColor
+          } else if (colors[t] === null) {
+            colors[t] = defaultColor
           }
         }
       }
@@ -947,15 +3156,21 @@ export async function parse3MF(file: File): Promise<ParsedThreeMF> {
 
     // 5d: Fallback sequential coloring
     const totalColoredTriangles = allGeomObjects.reduce(
-      (sum, obj) => sum + obj.triangles.filter((t) => t.colorHex !== null).length,
+      (sum, obj) => sum + obj.triangleColors.filter((c) => c !== null).length,
       0,
     )
     if (totalColoredTriangles === 0 && filamentColors.length > 1 && allGeomObjects.length > 1) {
       if (modelSettings.hasMmuSegmentation || hasMultipleExtruders) {
         allGeomObjects.forEach((obj, idx) => {
           const color = filamentColors[idx % filamentColors.length]
-          obj.triangles.forEach((t) => { t.colorHex = color })
+          obj.triangleColors.fill(color)
         })
+        addDiagnostic(
+          diagnostics,
+          'warning',
+          'fallback-sequential-colors',
+          'Multicolour markers but no per-triangle colours; filament colours assigned to objects in order',
+        )
       }
     }
 
@@ -965,45 +3180,75 @@ export async function parse3MF(file: File): Promise<ParsedThreeMF> {
     const geometries: BufferGeometry[] = []
     const objectIdToGeometryIndex = new Map<number, number>()
     const triangleMaterialMaps = new Map<number, Map<number, string>>()
+    const textureMaps = new Map<number, ThreeMFTexture>()
+    const sliceStacks = new Map<number, ThreeMFSliceStack>()
+    const triangleSets = new Map<number, ThreeMFTriangleSet[]>()
+    const textures = await loadTextures(zipContent, allGeomObjects, textureDefs, diagnostics)
     const allUniqueColors = new Set<string>()
     let totalVolume = 0
-    let globalBoundingBox = { x: 0, y: 0, z: 0 }
+    let supportVolume = 0
+    const hasSupports = allGeomObjects.some((obj) => obj.type === 'support' || obj.type === 'solidsupport')
 
     for (let i = 0; i < allGeomObjects.length; i++) {
+      throwIfAborted(signal)
+      report('geometry', i / allGeomObjects.length)
       const obj = allGeomObjects[i]
       const geometry = new BufferGeometry()
-      geometry.setAttribute('position', new BufferAttribute(new Float32Array(obj.vertices), 3))
+      const texture = obj.texturePath && obj.uvs ? textures.get(obj.texturePath) : undefined
+      // Per-corner attributes need a vertex per triangle corner
+      const unwelded = !!texture || !!obj.vertexColors
+      if (unwelded) {
+        geometry.setAttribute('position', new BufferAttribute(unweldTriangles(obj.vertices, obj.indices), 3))
+      } else {
+        geometry.setAttribute('position', new BufferAttribute(obj.vertices, 3))
+      }
+      if (texture) {
+        geometry.setAttribute('uv', new BufferAttribute(obj.uvs!, 2))
+        textureMaps.set(i, texture)
+      }
+      if (obj.vertexColors) geometry.setAttribute('color', new BufferAttribute(obj.vertexColors, 3))
+      if (obj.sliceStack) sliceStacks.set(i, obj.sliceStack)
+      if (obj.triangleSets) triangleSets.set(i, obj.triangleSets)
 
-      const indices = new Uint32Array(obj.triangles.length * 3)
       const triColorMap = new Map<number, string>()
       let hasAnyColor = false
 
-      for (let t = 0; t < obj.triangles.length; t++) {
-        const tri = obj.triangles[t]
-        indices[t * 3] = tri.v1
-        indices[t * 3 + 1] = tri.v2
-        indices[t * 3 + 2] = tri.v3
-        if (tri.colorHex) {
-          triColorMap.set(t, tri.colorHex)
-          allUniqueColors.add(tri.colorHex)
+      for (let t = 0; t < obj.triangleColors.length; t++) {
+        const colorHex = obj.triangleColors[t]
+        if (colorHex) {
+          triColorMap.set(t, colorHex)
+          allUniqueColors.add(colorHex)
           hasAnyColor = true
         }
       }
 
-      geometry.setIndex(new BufferAttribute(indices, 1))
+      const index = unwelded ? Uint32Array.from({ length: obj.indices.length }, (_, k) => k) : obj.indices
+      geometry.setIndex(new BufferAttribute(index, 1))
       geometry.computeVertexNormals()
       geometries.push(geometry)
       objectIdToGeometryIndex.set(obj.id, i)
       if (hasAnyColor) triangleMaterialMaps.set(i, triColorMap)
 
+      // Surfaces enclose nothing and `other` objects aren't printed; supports are reported on their own
+      const isSupport = obj.type === 'support' || obj.type === 'solidsupport'
+      if (obj.type !== 'model' && !isSupport) continue
       try {
-        totalVolume += calculateVolume(geometry)
-        const bbox = calculateBoundingBox(geometry)
-        globalBoundingBox.x = Math.max(globalBoundingBox.x, bbox.x)
-        globalBoundingBox.y = Math.max(globalBoundingBox.y, bbox.y)
-        globalBoundingBox.z = Math.max(globalBoundingBox.z, bbox.z)
-      } catch {
-        /* skip */
+        // Pre-sliced objects without a mesh: layer areas × thickness, scaled by the placement
+        const placementScale = Math.abs((placements.get(obj.id) ?? IDENTITY).determinant())
+        const volume =
+          obj.sliceStack && obj.indices.length === 0
+            ? calculateSliceStackVolume(obj.sliceStack) * placementScale
+            : calculateVolume(geometry)
+        if (isSupport) supportVolume += volume * outputScale ** 3
+        else totalVolume += volume * outputScale ** 3
+      } catch (err) {
+        addDiagnostic(
+          diagnostics,
+          'error',
+          'volume-failed',
+          `Volume of object ${obj.id} left out: ${errorMessage(err)}`,
+          obj.sourceFile,
+        )
       }
     }
 
@@ -1046,18 +3291,32 @@ export async function parse3MF(file: File): Promise<ParsedThreeMF> {
           }
         })
         if (objectIds.length === 0) objectIds.push(...geometries.map((_, i) => i))
-        materialSlots.push({ id: colorHex, name: `Color ${idx + 1}`, objectIds, selectedColor: colorHex })
+        const slot: MaterialSlot = { id: colorHex, name: `Color ${idx + 1}`, objectIds, selectedColor: colorHex }
+        const mixture = mixturesByColor.get(colorHex)
+        if (mixture) slot.mixture = mixture
+        // Painted and extruder-assigned colours come from the filament colours
+        const filament = filaments.find((f) => f.color === colorHex)
+        if (filament) slot.filament = filament
+        materialSlots.push(slot)
       })
     } else if (filamentColors.length > 1) {
       filamentColors.forEach((color, idx) => {
         const objectIds: number[] = []
         allGeomObjects.forEach((obj, geomIdx) => {
-          if (obj.triangles.length > 0 && obj.triangles[0].colorHex === color) objectIds.push(geomIdx)
+          if (obj.triangleColors.length > 0 && obj.triangleColors[0] === color) objectIds.push(geomIdx)
         })
         if (objectIds.length === 0) objectIds.push(...geometries.map((_, i) => i))
-        materialSlots.push({ id: color, name: `Filament ${idx + 1}`, objectIds, selectedColor: color })
+        const slot: MaterialSlot = { id: color, name: `Filament ${idx + 1}`, objectIds, selectedColor: color }
+        if (filaments[idx]) slot.filament = filaments[idx]
+        materialSlots.push(slot)
       })
     } else if (filamentCount > 1 && filamentColors.length === 0) {
+      addDiagnostic(
+        diagnostics,
+        'warning',
+        'fallback-slot-colors',
+        `${filamentCount} filaments without colours; slots use placeholder colours`,
+      )
       const defaultSlotColors = ['#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF', '#FF8000', '#8000FF']
       for (let i = 0; i < filamentCount; i++) {
         const slotColor =
@@ -1069,6 +3328,7 @@ export async function parse3MF(file: File): Promise<ParsedThreeMF> {
           name: `Filament ${i + 1}`,
           objectIds: geometries.map((_, gi) => gi),
           selectedColor: slotColor,
+          filament: filaments[i],
         })
       }
     } else if (isMultiColor && prusaData.extruderColors.length > 1) {
@@ -1081,27 +3341,48 @@ export async function parse3MF(file: File): Promise<ParsedThreeMF> {
         })
       })
     } else {
-      materialSlots.push({
+      addDiagnostic(diagnostics, 'info', 'single-material', 'No multicolour data found; using a single default material')
+      const slot: MaterialSlot = {
         id: 'default',
         name: 'Material 1',
         objectIds: geometries.map((_, i) => i),
         selectedColor: '#FFFFFF',
-      })
+      }
+      // A single composite mixture still matters for quoting
+      const mixture = colorArray.length === 1 ? mixturesByColor.get(colorArray[0]) : undefined
+      if (mixture) slot.mixture = mixture
+      const opacity = colorArray.length === 1 ? opacityByColor.get(colorArray[0]) : undefined
+      if (opacity !== undefined) slot.opacity = slot.fileOpacity = opacity
+      if (filaments.length === 1) slot.filament = filaments[0]
+      materialSlots.push(slot)
+    }
+
+    for (const slot of materialSlots) {
+      const opacity = opacityByColor.get(slot.id)
+      if (opacity !== undefined) slot.opacity = slot.fileOpacity = opacity
     }
 
     // -----------------------------------------------------------------------
     // Step 8: Plates
     // -----------------------------------------------------------------------
-    let { plates, plateObjectMap } = await parseBambuPlates(zipContent)
+    let { plates, plateObjectMap } = await parseBambuPlates(zipContent, diagnostics)
+    throwIfAborted(signal)
+
+    // Before the fallback plate: G-code for a plate the package doesn't otherwise describe adds that plate
+    const toolpathSizes = hasGcode
+      ? await loadPlateGcode(zipContent, zipPathByName, plates, plateObjectMap, geometries.length === 0, diagnostics)
+      : new Map<number, BoundingBox>()
+    throwIfAborted(signal)
 
     if (plates.length > 0) {
-      const hasEmpty = plates.some((p) => p.objectIds.length === 0)
+      const allIds = buildItems.length > 0 ? buildItems.map((b) => b.objectId) : allGeomObjects.map((o) => o.id)
+      const hasEmpty = allIds.length > 0 && plates.some((p) => p.objectIds.length === 0)
       if (hasEmpty) {
-        const allIds = buildItems.length > 0 ? buildItems.map((b) => b.objectId) : allGeomObjects.map((o) => o.id)
         plates.forEach((p) => {
           if (p.objectIds.length === 0) {
             p.objectIds = [...allIds]
             plateObjectMap.set(p.id, [...allIds])
+            addDiagnostic(diagnostics, 'info', 'fallback-plate-objects', `Plate ${p.id} lists no objects; showing all`)
           }
         })
       }
@@ -1113,20 +3394,85 @@ export async function parse3MF(file: File): Promise<ParsedThreeMF> {
       plateObjectMap = new Map([[1, allObjectIds]])
     }
 
+    const { thumbnail, plateImages } = await loadThumbnails(zipContent, zipPathByName, diagnostics)
+    const sliceInfo = await parseSliceInfo(zipContent, diagnostics, opacityByColor)
+    throwIfAborted(signal)
+    for (const plate of plates) {
+      const info = sliceInfo.get(plate.id)
+      if (info) plate.sliceInfo = info
+
+      const images = plateImages.get(plate.id) ?? {}
+      // A plate render stored under a name other than plate_N.png
+      const thumbnailPath = plate.files?.thumbnail && zipPathByName.get(plate.files.thumbnail.toLowerCase())
+      if (!images.thumbnail && thumbnailPath) images.thumbnail = await readImage(zipContent, thumbnailPath, diagnostics)
+      if (Object.values(images).some(Boolean)) plate.images = images
+    }
+
+    // Bounding box of the placed assembly, measured per plate so multi-plate
+    // projects don't report the gap between plates as model size
+    const globalBoundingBox: BoundingBox = { x: 0, y: 0, z: 0 }
+    for (const plate of plates) {
+      const geomIndices = plateGeometryIndices(
+        plateObjectMap.get(plate.id) ?? plate.objectIds,
+        objectIdToGeometryIndex,
+        compositeToGeometryMap,
+      )
+      try {
+        // G-code only packages measure the toolpath instead
+        const toolpathSize = geometries.length === 0 ? toolpathSizes.get(plate.id) : undefined
+        if (geometries.length === 0 && !toolpathSize) continue
+        const bbox =
+          toolpathSize ??
+          calculateBoundingBox(geomIndices.length > 0 ? geomIndices.map((gi) => geometries[gi]) : geometries)
+        globalBoundingBox.x = Math.max(globalBoundingBox.x, Number((bbox.x * outputScale).toFixed(2)))
+        globalBoundingBox.y = Math.max(globalBoundingBox.y, Number((bbox.y * outputScale).toFixed(2)))
+        globalBoundingBox.z = Math.max(globalBoundingBox.z, Number((bbox.z * outputScale).toFixed(2)))
+      } catch (err) {
+        addDiagnostic(
+          diagnostics,
+          'warning',
+          'bounding-box-failed',
+          `Plate ${plate.id} bounding box: ${errorMessage(err)}`,
+        )
+      }
+    }
+
+    const geometryTransforms =
+      placements.size > 0 ? allGeomObjects.map((obj) => (placements.get(obj.id) ?? IDENTITY).clone()) : undefined
+
+    report('geometry', 1)
     return {
       volume: totalVolume,
+      supportVolume: hasSupports ? supportVolume : undefined,
       boundingBox: globalBoundingBox,
       materialSlots,
+      sliced: plates.some((p) => p.gcode) || undefined,
+      filaments,
+      thumbnail,
       isMultiColor,
-      metadata: {},
+      metadata,
       geometries,
       triangleMaterialMaps: triangleMaterialMaps.size > 0 ? triangleMaterialMaps : undefined,
+      textureMaps: textureMaps.size > 0 ? textureMaps : undefined,
+      sliceStacks: sliceStacks.size > 0 ? sliceStacks : undefined,
+      triangleSets: triangleSets.size > 0 ? triangleSets : undefined,
       plates: plates.length > 0 ? plates : undefined,
       plateObjectMap: plateObjectMap.size > 0 ? plateObjectMap : undefined,
       objectIdToGeometryIndex: objectIdToGeometryIndex.size > 0 ? objectIdToGeometryIndex : undefined,
       compositeToGeometryMap: compositeToGeometryMap.size > 0 ? compositeToGeometryMap : undefined,
+      geometryTypes: allGeomObjects.some((obj) => obj.type !== 'model')
+        ? allGeomObjects.map((obj) => obj.type)
+        : undefined,
+      buildItems: resultBuildItems.length > 0 ? resultBuildItems : undefined,
+      buildUuid,
+      objectUuids: objectUuids.size > 0 ? objectUuids : undefined,
+      encryptedParts: encryptedResources.length > 0 ? encryptedResources.map((res) => res.path) : undefined,
+      geometryTransforms,
+      unit,
+      diagnostics,
     }
   } catch (error) {
+    throwIfAborted(signal)
     if (error instanceof ThreeMFParseError) throw error
     throw new ThreeMFParseError(
       `Failed to parse .3MF file: ${error instanceof Error ? error.message : 'Unknown error'}`,
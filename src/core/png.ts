@@ -0,0 +1,159 @@
+/**
+ * Minimal PNG decoder for images the parser itself has to read — the
+ * Displacement extension's height maps. Textures that are only displayed are
+ * left to the browser; this exists so displacement (and the volume of the
+ * displaced mesh) works in Node.js and workers, where there is no canvas.
+ *
+ * Supports every non-interlaced colour type and bit depth. Decompression uses
+ * the platform's `DecompressionStream`.
+ *
+ * @packageDocumentation
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Colour channel of an image, as named by 3MF (`channel="R"` …). */
+export type ImageChannel = 'R' | 'G' | 'B' | 'A'
+
+/** One channel of a decoded image, top row first. */
+export interface ImageChannelData {
+  width: number
+  height: number
+  /** Channel values scaled to 0–1, `width × height` of them. */
+  values: Float32Array
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/** Samples per pixel, by PNG colour type (0 grey, 2 RGB, 3 palette, 4 grey + alpha, 6 RGBA). */
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }
+
+/** Inflate zlib-wrapped deflate data (PNG `IDAT`, Secure Content `compression="deflate"`). */
+export async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Decode one channel of a PNG. Grey images report their grey level for R, G
+ * and B; images without alpha report `1` for A (palette images honour `tRNS`).
+ *
+ * @throws {Error} If the data is not a PNG, or is interlaced.
+ */
+export async function decodePngChannel(bytes: Uint8Array, channel: ImageChannel): Promise<ImageChannelData> {
+  if (bytes.length < 8 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) throw new Error('Not a PNG image')
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  let width = 0,
+    height = 0,
+    bitDepth = 8,
+    colorType = 0,
+    interlace = 0
+  let palette: Uint8Array | undefined
+  let paletteAlpha: Uint8Array | undefined
+  const idat: Uint8Array[] = []
+
+  for (let pos = 8; pos + 8 <= bytes.length; ) {
+    const length = view.getUint32(pos)
+    const type = String.fromCharCode(bytes[pos + 4], bytes[pos + 5], bytes[pos + 6], bytes[pos + 7])
+    const dataStart = pos + 8
+    const data = bytes.subarray(dataStart, dataStart + length)
+    pos = dataStart + length + 4 // skip the CRC
+    if (type === 'IHDR') {
+      width = view.getUint32(dataStart)
+      height = view.getUint32(dataStart + 4)
+      bitDepth = data[8]
+      colorType = data[9]
+      interlace = data[12]
+    } else if (type === 'PLTE') palette = data
+    else if (type === 'tRNS') paletteAlpha = data
+    else if (type === 'IDAT') idat.push(data)
+    else if (type === 'IEND') break
+  }
+
+  const channels = CHANNELS_BY_COLOR_TYPE[colorType]
+  if (!width || !height || !channels) throw new Error('Malformed PNG header')
+  if (interlace) throw new Error('Interlaced PNGs are not supported')
+
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of idat) {
+    compressed.set(chunk, offset)
+    offset += chunk.length
+  }
+  const raw = await inflate(compressed)
+
+  const stride = Math.ceil((width * channels * bitDepth) / 8)
+  const bpp = Math.max(1, (channels * bitDepth) / 8)
+  if (raw.length < (stride + 1) * height) throw new Error('Truncated PNG image data')
+  const pixels = unfilter(raw, stride, height, bpp)
+
+  // Sample of the pixel holding the channel; -1 for the implied alpha of an opaque image
+  let sample: number
+  if (colorType === 3) sample = 0
+  else if (channel === 'A') sample = colorType === 4 ? 1 : colorType === 6 ? 3 : -1
+  else sample = colorType === 2 || colorType === 6 ? 'RGB'.indexOf(channel) : 0
+  const maxValue = (1 << bitDepth) - 1
+
+  const values = new Float32Array(width * height)
+  if (sample < 0) return { width, height, values: values.fill(1) }
+  for (let y = 0; y < height; y++) {
+    const row = y * stride
+    for (let x = 0; x < width; x++) {
+      const level = readSample(pixels, row, (x * channels + sample) * bitDepth, bitDepth)
+      if (colorType !== 3) {
+        values[y * width + x] = level / maxValue
+      } else if (channel === 'A') {
+        // Palette alpha comes from tRNS; entries past its end are opaque
+        values[y * width + x] = (paletteAlpha?.[level] ?? 255) / 255
+      } else {
+        values[y * width + x] = (palette?.[level * 3 + 'RGB'.indexOf(channel)] ?? 0) / 255
+      }
+    }
+  }
+
+  return { width, height, values }
+}
+
+/** Undo PNG scanline filters. Returns the pixel rows without their filter bytes. */
+function unfilter(raw: Uint8Array, stride: number, height: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(stride * height)
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]
+    const src = y * (stride + 1) + 1
+    const row = y * stride
+    const prev = row - stride
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0
+      const b = y > 0 ? out[prev + x] : 0
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0
+      let predictor = 0
+      if (filter === 1) predictor = a
+      else if (filter === 2) predictor = b
+      else if (filter === 3) predictor = (a + b) >> 1
+      else if (filter === 4) {
+        const p = a + b - c
+        const pa = Math.abs(p - a),
+          pb = Math.abs(p - b),
+          pc = Math.abs(p - c)
+        predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+      }
+      out[row + x] = (raw[src + x] + predictor) & 0xff
+    }
+  }
+  return out
+}
+
+/** Read a `bitDepth`-bit sample starting `bitOffset` bits into the row at `row`. */
+function readSample(pixels: Uint8Array, row: number, bitOffset: number, bitDepth: number): number {
+  if (bitDepth === 8) return pixels[row + bitOffset / 8]
+  if (bitDepth === 16) return (pixels[row + bitOffset / 8] << 8) | pixels[row + bitOffset / 8 + 1]
+  const byte = pixels[row + (bitOffset >> 3)]
+  return (byte >> (8 - bitDepth - (bitOffset & 7))) & ((1 << bitDepth) - 1)
+}
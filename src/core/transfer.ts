@@ -0,0 +1,106 @@
+/**
+ * Worker message protocol — how a {@link ParsedThreeMF} crosses the
+ * `postMessage` boundary.
+ *
+ * `BufferGeometry` and `Matrix4` are class instances and don't survive
+ * structured cloning, so geometries are flattened to their attribute arrays
+ * (whose buffers are transferred, not copied) and rebuilt on the receiving
+ * side. Everything else on the result — maps, metadata, plain objects — is
+ * structured-cloneable as-is.
+ *
+ * @packageDocumentation
+ */
+
+import { BufferGeometry, BufferAttribute, Matrix4 } from 'three'
+import type { ParsedThreeMF, ThreeMFSource, ParseStage } from './types'
+import type { Parse3MFOptions } from './parser'
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+interface SerializedAttribute {
+  array: Float32Array | Uint32Array | Uint16Array
+  itemSize: number
+  normalized: boolean
+}
+
+export interface SerializedGeometry {
+  attributes: Record<string, SerializedAttribute>
+  index: Uint32Array | Uint16Array | null
+  groups: { start: number; count: number; materialIndex?: number }[]
+}
+
+export type SerializedThreeMF = Omit<ParsedThreeMF, 'geometries' | 'geometryTransforms'> & {
+  geometries: SerializedGeometry[]
+  geometryTransforms?: number[][]
+}
+
+/** Main thread → worker. Callbacks and signals can't be cloned, so they stay on the main side. */
+export interface WorkerParseRequest {
+  type: 'parse'
+  file: ThreeMFSource
+  options: Omit<Parse3MFOptions, 'onProgress' | 'signal' | 'decrypt'>
+  /** Post `progress` messages back while parsing. */
+  reportProgress: boolean
+}
+
+/** Worker → main thread. */
+export type WorkerParseResponse =
+  | { type: 'progress'; stage: ParseStage; fraction: number }
+  | { type: 'result'; result: SerializedThreeMF }
+  | { type: 'error'; name: string; message: string; encryptedParts?: string[] }
+
+// ---------------------------------------------------------------------------
+// Serialisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Flatten a parse result for `postMessage`. Returns the message payload and
+ * the list of buffers to transfer (each listed once — a duplicate would make
+ * `postMessage` throw).
+ */
+export function serializeResult(result: ParsedThreeMF): { result: SerializedThreeMF; transfer: ArrayBuffer[] } {
+  const transfer = new Set<ArrayBuffer>()
+
+  const geometries = result.geometries.map((geometry): SerializedGeometry => {
+    const attributes: Record<string, SerializedAttribute> = {}
+    for (const [name, attr] of Object.entries(geometry.attributes)) {
+      if (!(attr instanceof BufferAttribute)) continue // interleaved attributes are never produced by the parser
+      const array = attr.array as SerializedAttribute['array']
+      attributes[name] = { array, itemSize: attr.itemSize, normalized: attr.normalized }
+      transfer.add(array.buffer as ArrayBuffer)
+    }
+    const index = geometry.index ? (geometry.index.array as Uint32Array | Uint16Array) : null
+    if (index) transfer.add(index.buffer as ArrayBuffer)
+    return { attributes, index, groups: geometry.groups.map((g) => ({ ...g })) }
+  })
+
+  return {
+    result: {
+      ...result,
+      geometries,
+      geometryTransforms: result.geometryTransforms?.map((m) => m.toArray()),
+    },
+    transfer: [...transfer],
+  }
+}
+
+/** Rebuild `BufferGeometry` / `Matrix4` instances from a worker result. */
+export function deserializeResult(data: SerializedThreeMF): ParsedThreeMF {
+  const geometries = data.geometries.map((g) => {
+    const geometry = new BufferGeometry()
+    for (const [name, attr] of Object.entries(g.attributes)) {
+      geometry.setAttribute(name, new BufferAttribute(attr.array, attr.itemSize, attr.normalized))
+    }
+    if (g.index) geometry.setIndex(new BufferAttribute(g.index, 1))
+    for (const group of g.groups) geometry.addGroup(group.start, group.count, group.materialIndex)
+    return geometry
+  })
+
+  return {
+    ...data,
+    geometries,
+    geometryTransforms: data.geometryTransforms?.map((elements) => new Matrix4().fromArray(elements)),
+  }
+}
@@ -1,4 +1,4 @@
-import type { BufferGeometry } from 'three'
+import type { BufferGeometry, Matrix4 } from 'three'
 
 // ---------------------------------------------------------------------------
 // Public types — these form the library's API contract
@@ -14,24 +14,384 @@ export interface MaterialSlot {
   objectIds: number[]
   /** Current color selection — either a hex string ("#RRGGBB") or a named color. */
   selectedColor: string
+  /**
+   * Opacity, 0–1, from the alpha byte of a `#RRGGBBAA` colour in the file
+   * (e.g. a clear PETG filament). Omitted when the colour is opaque. The
+   * exporter writes it back as the alpha byte when it differs from `fileOpacity`.
+   */
+  opacity?: number
+  /**
+   * The `opacity` the file itself gives the slot, as parsed — left alone when
+   * the user changes `opacity`, so the exporter can tell the two apart.
+   * Omitted when the colour is opaque.
+   */
+  fileOpacity?: number
+  /**
+   * For slots produced by a 3MF `<m:compositematerials>` mixture (directly or
+   * as a layer of `<m:multiproperties>`): the constituent materials and
+   * their ratios. The slot colour is the blended display colour.
+   */
+  mixture?: MaterialMixture
+  /** The slicer filament profile this slot prints with (one of `ParsedThreeMF.filaments`), when known. */
+  filament?: FilamentProfile
+}
+
+/**
+ * A filament as configured in the slicer project (`Metadata/project_settings.config`,
+ * Bambu Studio / OrcaSlicer). Fields are omitted when the project doesn't set them.
+ */
+export interface FilamentProfile {
+  /** 1-based filament number — the extruder / AMS slot objects are assigned to. */
+  id: number
+  /** Filament colour, `#RRGGBB` (`filament_colour`). */
+  color?: string
+  /** Material, e.g. `PLA`, `PETG`, `TPU` (`filament_type`). */
+  type?: string
+  /** Manufacturer (`filament_vendor`). */
+  vendor?: string
+  /** Slicer profile name, e.g. `Bambu PLA Basic @BBL X1C` (`filament_settings_id`). */
+  settingsId?: string
+  /** Density in g/cm³ (`filament_density`). */
+  density?: number
+  /** Price per kg, in the user's currency (`filament_cost`). */
+  cost?: number
+  /** Filament diameter in mm (`filament_diameter`). */
+  diameter?: number
+  /** Nozzle temperature in °C after the first layer (`nozzle_temperature`). */
+  nozzleTemperature?: number
+  /** Whether the filament dissolves, e.g. PVA (`filament_soluble`). */
+  soluble?: boolean
+  /** Whether the profile is meant for supports (`filament_is_support`). */
+  isSupport?: boolean
+  /** Every per-filament setting read for this filament, by config key, as written in the project. */
+  settings: Record<string, string>
+}
+
+/** A blend of base materials, from the 3MF Materials extension. */
+export interface MaterialMixture {
+  /** Constituents, with `ratio`s normalised to sum to 1. */
+  components: MixtureComponent[]
+}
+
+export interface MixtureComponent {
+  /** Base material `name` (may be empty). */
+  name: string
+  /** Base material display colour, `#RRGGBB`. */
+  color: string
+  ratio: number
 }
 
 /** A print plate defined in the 3MF file. */
 export interface Plate {
   id: number
+  /** The name given in the slicer (`plater_name`), else `"Plate N"`. */
   name: string
   /** Object IDs assigned to this plate. */
   objectIds: number[]
+  /** Object instances placed on this plate (`<model_instance>`). Omitted when the file doesn't list them. */
+  instances?: PlateInstance[]
+  /** Whether the plate is locked against arranging (`locked`). */
+  locked?: boolean
+  /** Build plate surface, e.g. `textured_plate` or `cool_plate` (`bed_type`). */
+  bedType?: string
+  /** `by layer` or `by object` (`print_sequence`). */
+  printSequence?: string
+  /** Package parts the slicer wrote for this plate. Omitted when none are listed. */
+  files?: PlateFiles
+  /** Slicer statistics from `Metadata/slice_info.config`. Only present in sliced projects. */
+  sliceInfo?: PlateSliceInfo
+  /** G-code sliced for this plate. Only present in sliced (`.gcode.3mf`) packages. */
+  gcode?: ThreeMFPlateGcode
+  /** Preview images the slicer stored for this plate. Omitted when there are none. */
+  images?: ThreeMFPlateImages
+}
+
+/** An object instance on a plate, from a Bambu Studio `<model_instance>`. */
+export interface PlateInstance {
+  /** Object ID (`object_id`), as used by the build. */
+  objectId: number
+  /** Instance index within the object (`instance_id`). */
+  instanceId: number
+  /** ID the slicer uses for the instance in G-code and `pick_N.png` (`identify_id`). */
+  identifyId?: number
+}
+
+/** Package paths of the parts a slicer wrote for a plate (`model_settings.config`). */
+export interface PlateFiles {
+  /** Sliced G-code (`gcode_file`); only present in sliced (`.gcode.3mf`) packages. */
+  gcode?: string
+  /** Plate render (`thumbnail_file`). */
+  thumbnail?: string
+  /** Top-down view (`top_file`). */
+  top?: string
+  /** Object picking mask (`pick_file`). */
+  pick?: string
+}
+
+/** Print statistics of a sliced plate, from a `<plate>` in `Metadata/slice_info.config`. */
+export interface PlateSliceInfo {
+  /** Estimated print time in seconds (`prediction`). */
+  printTime?: number
+  /** Total filament weight in grams (`weight`). */
+  weight?: number
+  /** Printer the plate was sliced for, e.g. `BL-P001` (`printer_model_id`). */
+  printerModelId?: string
+  /** Nozzle diameter in mm (`nozzle_diameters`). */
+  nozzleDiameter?: number
+  /** Whether the slice generated supports (`support_used`). */
+  supportUsed?: boolean
+  /** Filament used, per filament (`<filament>`). */
+  filaments: PlateFilamentUsage[]
+}
+
+/** Filament consumed by one sliced plate. */
+export interface PlateFilamentUsage {
+  /** 1-based filament number, matching `FilamentProfile.id`. */
+  id: number
+  /** Material, e.g. `PLA`. */
+  type?: string
+  /** Filament colour, `#RRGGBB`. */
+  color?: string
+  /** Length used in metres (`used_m`). */
+  usedMeters?: number
+  /** Weight used in grams (`used_g`). */
+  usedGrams?: number
+}
+
+/** G-code embedded in a sliced package for one plate (`Metadata/plate_N.gcode`). */
+export interface ThreeMFPlateGcode {
+  /** Package path, e.g. `Metadata/plate_1.gcode`. */
+  path: string
+  /** The G-code file. */
+  file: Blob
+  /** Values from the G-code's header block. */
+  header: GcodeHeader
+  /**
+   * Whether the G-code matches its `.md5` sidecar (`plate_N.gcode.md5`).
+   * Omitted when the package has no sidecar.
+   */
+  checksumValid?: boolean
 }
 
-/** Metadata extracted from the 3MF file header. */
+/** The `; HEADER_BLOCK_START` … `; HEADER_BLOCK_END` comments of Bambu Studio / OrcaSlicer G-code. */
+export interface GcodeHeader {
+  /** Slicer and version that wrote the G-code, e.g. `BambuStudio 01.09.00.70`. */
+  generator?: string
+  /** Estimated print time in seconds (`total estimated time`). */
+  printTime?: number
+  /** Estimated time of the model alone in seconds, without preparation (`model printing time`). */
+  modelPrintTime?: number
+  /** Number of layers (`total layer number`). */
+  layerCount?: number
+  /** Filament length used in mm, per filament (`total filament length`). */
+  filamentLengths?: number[]
+  /** Filament weight used in grams, per filament (`total filament weight`). */
+  filamentWeights?: number[]
+  /** Height of the print in mm (`max_z_height`). */
+  maxZ?: number
+  /** Every `key: value` of the header block, as written. */
+  raw: Record<string, string>
+}
+
+/**
+ * Extrusion moves of a G-code file as line segments, in printer coordinates
+ * (mm). Built on request by `loadGcodeToolpath`.
+ */
+export interface GcodeToolpath {
+  /** Start and end point (x, y, z) of each segment — six values per segment. */
+  positions: Float32Array
+  /** 0-based tool (filament) index of each segment, from `T<n>` tool changes. */
+  tools: Uint8Array
+  /** Whether the file had more moves than the preview keeps; later moves are dropped. */
+  truncated: boolean
+}
+
+/** Preview images of one plate, from `Metadata/` (Bambu Studio, OrcaSlicer). */
+export interface ThreeMFPlateImages {
+  /** `plate_N.png` — the plate as rendered by the slicer. */
+  thumbnail?: Blob
+  /** `plate_N_small.png` — a smaller render of the same view. */
+  small?: Blob
+  /** `top_N.png` — top-down view. */
+  top?: Blob
+  /** `pick_N.png` — object picking mask, each object drawn in a flat colour. */
+  pick?: Blob
+}
+
+/**
+ * Metadata extracted from the 3MF file header.
+ *
+ * Typed fields come from the model's `<metadata name="...">` entries, with
+ * `docProps/core.xml` (OPC core properties) used to fill any gaps.
+ */
 export interface ThreeMFMetadata {
   title?: string
   designer?: string
   description?: string
   copyright?: string
+  /** `LicenseTerms` (3MF Core) or Bambu Studio's `License`. */
+  licenseTerms?: string
+  rating?: string
+  /** Creation date as written in the file (usually ISO 8601 / `YYYY-MM-DD`). */
+  creationDate?: string
+  modificationDate?: string
+  /** Authoring application, e.g. `"BambuStudio-01.09.07.52"`. */
+  application?: string
+  /** Keywords from the OPC core properties. */
+  keywords?: string
+  /**
+   * Every metadata entry found, keyed by name exactly as written.
+   * Model entries use their `name` attribute (e.g. `"BambuStudio:3mfVersion"`),
+   * core properties use their qualified tag (e.g. `"dc:creator"`).
+   */
+  raw: Record<string, string>
+}
+
+/** Anything `parse3MF` can read: a browser `File`/`Blob` or the raw bytes (`Buffer` is a `Uint8Array`). */
+export type ThreeMFSource = File | Blob | ArrayBuffer | Uint8Array
+
+/** Length unit declared by a 3MF `<model unit="...">` attribute. */
+export type ModelUnit = 'micron' | 'millimeter' | 'centimeter' | 'inch' | 'foot' | 'meter'
+
+/** A stage of `parse3MF`, as reported to `onProgress`. */
+export type ParseStage = 'unzip' | 'model' | 'external' | 'config' | 'geometry'
+
+/** Latest progress report from a running parse. */
+export interface ParseProgress {
+  stage: ParseStage
+  /** Overall progress, 0–1. */
+  fraction: number
+}
+
+/** Severity of a {@link ParseDiagnostic}. */
+export type DiagnosticLevel = 'info' | 'warning' | 'error'
+
+/**
+ * A note from the parser about how it read the file: which colour detection
+ * paths fired, which parts failed to parse, and which fallbacks were used.
+ */
+export interface ParseDiagnostic {
+  level: DiagnosticLevel
+  /** Stable kebab-case identifier, e.g. `"filament-colors"` or `"part-unreadable"`. */
+  code: string
+  /** Human-readable explanation. */
+  message: string
+  /** Package part the diagnostic is about, e.g. `"Metadata/project_settings.config"`. */
+  path?: string
 }
 
+/** How a texture repeats outside 0–1 (3MF Materials `tilestyleu` / `tilestylev`). */
+export type TextureTileStyle = 'wrap' | 'mirror' | 'clamp' | 'none'
+
+/** A `<texture2d>` image from the 3MF Materials extension. */
+export interface ThreeMFTexture {
+  /** Package path of the image, e.g. `"/3D/Textures/wood.png"`. */
+  path: string
+  /** `image/png` or `image/jpeg`. */
+  contentType: string
+  tileStyleU: TextureTileStyle
+  tileStyleV: TextureTileStyle
+  filter: 'auto' | 'linear' | 'nearest'
+  /** The image bytes, read from the package. */
+  image: Blob
+}
+
+/** One layer of a {@link ThreeMFSliceStack}: closed outlines at a Z height. */
+export interface ThreeMFSlice {
+  /** Top of the layer. Its bottom is the previous slice's `zTop` (or the stack's `zBottom`). */
+  zTop: number
+  /** Flat x/y outline vertex positions. */
+  vertices: Float32Array
+  /**
+   * Polygons as vertex indices in drawing order (`startv`, then each
+   * segment's `v2`). Holes wind opposite to the outline they cut.
+   */
+  polygons: Uint32Array[]
+}
+
+/** A `<s:slicestack>` from the 3MF Slice extension — an object shipped pre-sliced. */
+export interface ThreeMFSliceStack {
+  id: number
+  zBottom: number
+  /** Layers bottom-up, with any `<s:sliceref>` stacks spliced in. */
+  slices: ThreeMFSlice[]
+}
+
+/** A named group of triangles — `<t:triangleset>` (3MF Core 1.3 Triangle Sets). */
+export interface ThreeMFTriangleSet {
+  name: string
+  /** Tool-defined stable identifier (`identifier`); may be empty. */
+  identifier: string
+  /** Triangle indices into the geometry, ascending and without duplicates. */
+  triangles: Uint32Array
+}
+
+/**
+ * Object `type` (3MF Core). Only `model` objects count towards `volume`;
+ * `support` and `solidsupport` are printed support structures (see
+ * `supportVolume`), `surface` is an open, zero-thickness surface and `other`
+ * is geometry that is not printed.
+ */
+export type ThreeMFObjectType = 'model' | 'support' | 'solidsupport' | 'surface' | 'other'
+
+/** A `<build>` `<item>`, with its Production extension identity. */
+export interface ThreeMFBuildItem {
+  /** Object the item places — a key of `objectIdToGeometryIndex`. */
+  objectId: number
+  /** `p:UUID`, stable across edits of the file. */
+  uuid?: string
+  /** Package path of the model part holding the object (`p:path`), when it is not the root model. */
+  path?: string
+}
+
+/** A key holder declared in a Secure Content keystore (`<consumer>`). */
+export interface ThreeMFKeystoreConsumer {
+  consumerId: string
+  /** Identifies the consumer's key pair (`keyid`), if given. */
+  keyId?: string
+  /** The consumer's public key (`<keyvalue>`, PEM), if given. */
+  keyValue?: string
+}
+
+/** A resource group's content key, wrapped for one consumer (`<accessright>`). */
+export interface ThreeMFAccessRight {
+  consumer: ThreeMFKeystoreConsumer
+  /** Key wrapping algorithm URI, e.g. `http://www.w3.org/2001/04/xmlenc#rsa-oaep-mgf1p`. */
+  wrappingAlgorithm: string
+  mgfAlgorithm?: string
+  digestMethod?: string
+  /** The wrapped content-encryption key (`<cipherdata>`). */
+  wrappedKey: Uint8Array
+}
+
+/** A package part encrypted with the 3MF Secure Content extension (`<resourcedata>`). */
+export interface ThreeMFEncryptedResource {
+  /** Zip entry path of the encrypted part. */
+  path: string
+  /** Content encryption algorithm URI, e.g. `http://www.w3.org/2009/xmlenc11#aes256-gcm`. */
+  encryptionAlgorithm: string
+  /** Whether the plain text was deflated before encryption. */
+  compression: 'none' | 'deflate'
+  iv?: Uint8Array
+  tag?: Uint8Array
+  aad?: Uint8Array
+  /** `keyuuid` of the resource group sharing the content key. */
+  keyUuid?: string
+  /** The group's content key, wrapped for each consumer allowed to open it. */
+  accessRights: ThreeMFAccessRight[]
+}
+
+/**
+ * Decrypts one Secure Content part for `parse3MF`. Receives the keystore's
+ * description of the part and its encrypted bytes; returns the plain bytes
+ * (still deflated when `resource.compression` is `deflate` — the parser
+ * inflates them).
+ */
+export type ThreeMFDecryptCallback = (
+  resource: ThreeMFEncryptedResource,
+  cipherText: Uint8Array,
+) => Uint8Array | ArrayBuffer | Promise<Uint8Array | ArrayBuffer>
+
 /** Bounding box dimensions in millimetres. */
 export interface BoundingBox {
   x: number
@@ -45,31 +405,98 @@ export interface BoundingBox {
  * This is the single object that connects the parser to the viewer.
  */
 export interface ParsedThreeMF {
-  /** Model volume in cm³. */
+  /** Model volume in cm³ (of the placed assembly). Counts `model` objects only. */
   volume: number
-  /** Bounding box in mm. */
+  /** Volume in cm³ of `support` and `solidsupport` objects. Omitted when there are none. */
+  supportVolume?: number
+  /** Bounding box in mm of the placed assembly (largest plate for multi-plate files). */
   boundingBox: BoundingBox
   /** Material/color slots for the UI. */
   materialSlots: MaterialSlot[]
+  /**
+   * Whether the package is a sliced plate export (`.gcode.3mf`) with embedded
+   * G-code (`Plate.gcode`). Such packages may have no geometry at all.
+   */
+  sliced?: boolean
+  /** Filament profiles from the slicer project, by filament number. Empty when the project has none. */
+  filaments: FilamentProfile[]
+  /**
+   * Cover image of the package — the target of the OPC thumbnail relationship
+   * in `_rels/.rels` (usually `/Thumbnails/thumbnail.png` or
+   * `/Metadata/plate_1.png`), else `Metadata/thumbnail.png`. Omitted when the
+   * package has none.
+   */
+  thumbnail?: Blob
   /** Whether the file contains multicolor data. */
   isMultiColor: boolean
   /** File-level metadata. */
   metadata: ThreeMFMetadata
-  /** One `BufferGeometry` per geometry object in the file. */
+  /**
+   * One `BufferGeometry` per geometry object in the file, already positioned
+   * by its build item and component transforms.
+   */
   geometries: BufferGeometry[]
   /**
    * Per-triangle color assignments.
    * Outer key: geometry index.  Inner map: triangle index → color hex.
    */
   triangleMaterialMaps?: Map<number, Map<number, string>>
+  /**
+   * Texture per geometry index, for objects mapped with a `<texture2dgroup>`.
+   * Those geometries carry a `uv` attribute. Geometries that share an image
+   * share the same {@link ThreeMFTexture} object.
+   */
+  textureMaps?: Map<number, ThreeMFTexture>
+  /**
+   * Slice stack per geometry index, for objects with an `s:slicestackid`.
+   * Coordinates are object-local (in millimetres unless parsed with
+   * `normalizeUnits: false`); apply `geometryTransforms[i]` to place them.
+   * A pre-sliced object without a mesh gets a geometry with no triangles —
+   * just the outline points, for bounds — and its volume from the slice areas.
+   */
+  sliceStacks?: Map<number, ThreeMFSliceStack>
+  /**
+   * Triangle sets per geometry index. Triangle indices match the geometry's
+   * index buffer (three entries per triangle), so a set can be drawn or
+   * recoloured as a subset of the mesh.
+   */
+  triangleSets?: Map<number, ThreeMFTriangleSet[]>
   /** All plates found in the file. */
   plates?: Plate[]
   /** Plate ID → array of object IDs on that plate. */
   plateObjectMap?: Map<number, number[]>
-  /** 3MF object ID → index in `geometries` array. */
+  /**
+   * 3MF object ID → index in `geometries` array. IDs are unique across the
+   * package: an object in another model part keeps its own ID unless an
+   * already-loaded part uses it, in which case it is renumbered past the
+   * highest ID in the file.
+   */
   objectIdToGeometryIndex?: Map<number, number>
   /** Composite object ID → array of child geometry object IDs. */
   compositeToGeometryMap?: Map<number, number[]>
+  /** Object `type` per geometry (same order as `geometries`). Omitted when every object is a `model`. */
+  geometryTypes?: ThreeMFObjectType[]
+  /** Build items in file order, with their `p:UUID`s. */
+  buildItems?: ThreeMFBuildItem[]
+  /** Production extension `p:UUID` of the `<build>`. */
+  buildUuid?: string
+  /** Object ID → Production extension `p:UUID`, for mesh and composite objects in every model part. */
+  objectUuids?: Map<number, string>
+  /** Package parts that were Secure Content encrypted and opened with the `decrypt` option. */
+  encryptedParts?: string[]
+  /**
+   * The composed build-item × component transform baked into each geometry
+   * (same order as `geometries`). Invert it to recover object-local
+   * coordinates. Omitted when the file has no build section.
+   */
+  geometryTransforms?: Matrix4[]
+  /**
+   * Unit declared by the model. Geometries are in millimetres unless parsed
+   * with `normalizeUnits: false`, in which case they stay in this unit.
+   */
+  unit: ModelUnit
+  /** How the file was interpreted — detection paths, unreadable parts, fallbacks. */
+  diagnostics: ParseDiagnostic[]
 }
 
 // ---------------------------------------------------------------------------
@@ -118,6 +545,10 @@ export interface ThreeMFViewerProps {
   onError?: (error: Error) => void
   /** Called after a successful export/download. */
   onExported?: (blob: Blob) => void
+  /** Parse in a Web Worker (or supply a worker factory). See `ThreeMFProviderProps.useWorker`. */
+  useWorker?: boolean | (() => Worker)
+  /** Open Secure Content packages. See `ThreeMFProviderProps.decrypt`. */
+  decrypt?: ThreeMFDecryptCallback
   /** Whether to show the save/download button. Default: true when model is loaded. */
   showSaveButton?: boolean
   /** CSS class name for the root container. */
@@ -130,19 +561,36 @@ export interface ThreeMFViewerProps {
 // Internal parser types (re-exported for advanced use)
 // ---------------------------------------------------------------------------
 
-export interface ParsedTriangle {
-  v1: number
-  v2: number
-  v3: number
-  colorHex: string | null
-  /** Raw `paint_color` / `mmu_segmentation` hex attribute from BambuStudio/PrusaSlicer. */
-  paintAttr?: string
-}
-
 export interface ParsedGeomObject {
   id: number
   name: string
-  vertices: number[]
-  triangles: ParsedTriangle[]
+  type: ThreeMFObjectType
+  /** Flat x/y/z vertex positions. */
+  vertices: Float32Array
+  /** Flat `v1`/`v2`/`v3` vertex indices, three per triangle. */
+  indices: Uint32Array
+  /** Resolved colour hex per triangle (`null` = not assigned yet). */
+  triangleColors: (string | null)[]
+  /** Raw `paint_color` / `mmu_segmentation` hex attribute from BambuStudio/PrusaSlicer, by triangle index. */
+  paintAttrs?: Map<number, string>
+  /** Texture coordinates per triangle corner (six per triangle), for textured objects. */
+  uvs?: Float32Array
+  /** Package path of the texture image the `uvs` sample. */
+  texturePath?: string
+  /**
+   * Linear RGB per triangle corner (nine per triangle). Only present when some
+   * triangle's `p1`/`p2`/`p3` resolve to different colours (a gradient).
+   */
+  vertexColors?: Float32Array
+  /** Slice extension layers, when the object references an `<s:slicestack>`. */
+  sliceStack?: ThreeMFSliceStack
+  /** `<t:triangleset>`s of the object's mesh. */
+  triangleSets?: ThreeMFTriangleSet[]
+  /**
+   * Splits per edge applied to the object's displaced triangles, when it is a
+   * Displacement extension `<d:displacementmesh>`.
+   */
+  displacementSegments?: number
+  /** Model part the object was read from, when it is not the root model. */
   sourceFile?: string
 }
@@ -0,0 +1,47 @@
+/**
+ * Web Worker entry point — runs {@link parse3MF} off the main thread.
+ *
+ * Built as `parse3mf/worker`. You normally don't load it yourself:
+ * `parse3MFInWorker()` (and `<ThreeMFProvider useWorker>`) spawn it for you.
+ * Load it directly only when your bundler needs an explicit worker URL:
+ *
+ * @example
+ * ```ts
+ * import { parse3MFInWorker } from 'parse3mf/core'
+ *
+ * const result = await parse3MFInWorker(file, {
+ *   createWorker: () => new Worker(new URL('parse3mf/worker', import.meta.url), { type: 'module' }),
+ * })
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { parse3MF, ThreeMFEncryptedError } from './parser'
+import { serializeResult, type WorkerParseRequest, type WorkerParseResponse } from './transfer'
+
+// The project compiles against the DOM lib, so describe the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerParseRequest>) => void) | null
+  postMessage(message: WorkerParseResponse, transfer?: Transferable[]): void
+}
+
+scope.onmessage = async (event) => {
+  const request = event.data
+  if (request?.type !== 'parse') return
+
+  try {
+    const parsed = await parse3MF(request.file, {
+      ...request.options,
+      onProgress: request.reportProgress
+        ? (stage, fraction) => scope.postMessage({ type: 'progress', stage, fraction })
+        : undefined,
+    })
+    const { result, transfer } = serializeResult(parsed)
+    scope.postMessage({ type: 'result', result }, transfer)
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err))
+    const encryptedParts = error instanceof ThreeMFEncryptedError ? error.encryptedParts : undefined
+    scope.postMessage({ type: 'error', name: error.name, message: error.message, encryptedParts })
+  }
+}
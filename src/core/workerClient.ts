@@ -0,0 +1,106 @@
+import type { ParsedThreeMF, ThreeMFSource } from './types'
+import { ThreeMFParseError, ThreeMFEncryptedError, type Parse3MFOptions } from './parser'
+import { deserializeResult, type WorkerParseRequest, type WorkerParseResponse } from './transfer'
+
+// ---------------------------------------------------------------------------
+// Options
+// ---------------------------------------------------------------------------
+
+/**
+ * {@link Parse3MFOptions} minus `decrypt` — a callback can't be sent to the
+ * worker, so Secure Content packages must be parsed with `parse3MF`.
+ */
+export interface Parse3MFInWorkerOptions extends Omit<Parse3MFOptions, 'decrypt'> {
+  /**
+   * Create the worker to parse in. Defaults to the bundled `parse3mf/worker`
+   * entry, resolved next to this module. Supply your own when your bundler or
+   * CSP needs a different URL (or for CommonJS builds, where
+   * `import.meta.url` is unavailable).
+   */
+  createWorker?: () => Worker
+}
+
+function createDefaultWorker(): Worker {
+  return new Worker(new URL('./worker.js', import.meta.url), { type: 'module' })
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a `.3MF` file in a Web Worker.
+ *
+ * Same result as {@link parse3MF}, but the unzip, XML and geometry work runs
+ * off the main thread. Vertex, normal and index buffers are transferred back
+ * (not copied) and wrapped in fresh `BufferGeometry` objects, so the result
+ * can be handed to the `Viewer` unchanged.
+ *
+ * A new worker is started for each call and terminated when it settles.
+ * `onProgress` is relayed from the worker; aborting `signal` terminates the
+ * worker immediately.
+ *
+ * @throws {ThreeMFParseError} If the file is invalid or the worker fails.
+ */
+export function parse3MFInWorker(
+  file: ThreeMFSource,
+  options: Parse3MFInWorkerOptions = {},
+): Promise<ParsedThreeMF> {
+  const { createWorker = createDefaultWorker, onProgress, signal, ...parseOptions } = options
+
+  return new Promise<ParsedThreeMF>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal))
+      return
+    }
+
+    let worker: Worker
+    try {
+      worker = createWorker()
+    } catch (err) {
+      reject(new ThreeMFParseError(`Failed to start parser worker: ${err instanceof Error ? err.message : String(err)}`))
+      return
+    }
+
+    const onAbort = () => {
+      worker.terminate()
+      reject(abortReason(signal!))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    const settle = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+
+    worker.onmessage = (event: MessageEvent<WorkerParseResponse>) => {
+      const response = event.data
+      if (response.type === 'progress') {
+        onProgress?.(response.stage, response.fraction)
+        return
+      }
+      settle()
+      if (response.type === 'result') {
+        resolve(deserializeResult(response.result))
+      } else if (response.name === 'ThreeMFEncryptedError') {
+        reject(new ThreeMFEncryptedError(response.message, response.encryptedParts ?? []))
+      } else if (response.name === 'ThreeMFParseError') {
+        reject(new ThreeMFParseError(response.message))
+      } else {
+        reject(new ThreeMFParseError(`Failed to parse .3MF file: ${response.message}`))
+      }
+    }
+
+    worker.onerror = (event: ErrorEvent) => {
+      settle()
+      reject(new ThreeMFParseError(`Parser worker failed: ${event.message || 'unknown error'}`))
+    }
+
+    const request: WorkerParseRequest = { type: 'parse', file, options: parseOptions, reportProgress: !!onProgress }
+    worker.postMessage(request)
+  })
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The parse was aborted', 'AbortError')
+}
@@ -0,0 +1,273 @@
+/**
+ * Minimal XML reader — just the slice of the DOM the parser needs, without a
+ * global `DOMParser`, so `parse3mf/core` runs in Node.js and web workers.
+ *
+ * Non-validating and lenient: DTDs, comments and processing instructions are
+ * skipped, only predefined and numeric character entities are decoded, and
+ * unbalanced tags are closed rather than rejected. Namespace prefixes are kept
+ * on `tagName` / attribute `name`; `localName` holds the unprefixed part.
+ *
+ * @packageDocumentation
+ */
+
+// ---------------------------------------------------------------------------
+// Node types
+// ---------------------------------------------------------------------------
+
+export interface XmlAttribute {
+  name: string
+  localName: string
+  value: string
+}
+
+export class XmlElement {
+  readonly tagName: string
+  readonly localName: string
+  readonly attributes: XmlAttribute[] = []
+  /** Child elements only. */
+  readonly children: XmlElement[] = []
+  /** Child elements and text, in document order. */
+  readonly childNodes: Array<XmlElement | string> = []
+  parentNode: XmlElement | XmlDocument | null = null
+  /** Result of an {@link ElementReader}, for elements whose content was read in bulk. */
+  value?: unknown
+
+  constructor(tagName: string) {
+    this.tagName = tagName
+    this.localName = localPart(tagName)
+  }
+
+  /** Attribute value by exact (qualified) name, or `null` — same contract as the DOM. */
+  getAttribute(name: string): string | null {
+    for (let i = 0; i < this.attributes.length; i++) {
+      if (this.attributes[i].name === name) return this.attributes[i].value
+    }
+    return null
+  }
+
+  get parentElement(): XmlElement | null {
+    return this.parentNode instanceof XmlElement ? this.parentNode : null
+  }
+
+  get textContent(): string {
+    let text = ''
+    for (const node of this.childNodes) text += typeof node === 'string' ? node : node.textContent
+    return text
+  }
+}
+
+export class XmlDocument {
+  documentElement: XmlElement | null = null
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads an element's content straight from the source text instead of
+ * building child nodes. `start` is just past the start tag's `>`; the reader
+ * returns the index just past the matching end tag.
+ */
+export type ElementReader = (text: string, start: number) => { end: number; value: unknown }
+
+export interface ParseXmlOptions {
+  /** Bulk readers keyed by element local name (e.g. `vertices`). */
+  readers?: Record<string, ElementReader>
+}
+
+export function localPart(name: string): string {
+  const colon = name.indexOf(':')
+  return colon === -1 ? name : name.slice(colon + 1)
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+export function decodeEntities(text: string): string {
+  if (text.indexOf('&') === -1) return text
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10)
+      return isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[ref] ?? match
+  })
+}
+
+/** Whitespace, `/`, `>` or `=` — the characters that end a tag or attribute name. */
+export function isNameEnd(code: number): boolean {
+  return code === 32 || code === 9 || code === 10 || code === 13 || code === 47 || code === 62 || code === 61
+}
+
+function isSpace(code: number): boolean {
+  return code === 32 || code === 9 || code === 10 || code === 13
+}
+
+/**
+ * Read the attributes of a start tag beginning at `pos` (just past the tag
+ * name). Returns the index after the closing `>` and whether the tag was
+ * self-closing.
+ */
+export function readAttributes(
+  text: string,
+  pos: number,
+  onAttribute: (name: string, value: string) => void,
+): { end: number; selfClosing: boolean } {
+  const len = text.length
+  let j = pos
+  while (j < len) {
+    let code = text.charCodeAt(j)
+    if (isSpace(code)) {
+      j++
+      continue
+    }
+    if (code === 62) return { end: j + 1, selfClosing: false } // >
+    if (code === 47) {
+      // /
+      if (text.charCodeAt(j + 1) === 62) return { end: j + 2, selfClosing: true }
+      j++
+      continue
+    }
+
+    const nameStart = j
+    while (j < len && !isNameEnd(text.charCodeAt(j))) j++
+    const name = text.slice(nameStart, j)
+    while (j < len && isSpace(text.charCodeAt(j))) j++
+
+    let value = ''
+    if (text.charCodeAt(j) === 61) {
+      // =
+      j++
+      while (j < len && isSpace(text.charCodeAt(j))) j++
+      code = text.charCodeAt(j)
+      if (code === 34 || code === 39) {
+        const close = text.indexOf(code === 34 ? '"' : "'", j + 1)
+        const valueEnd = close === -1 ? len : close
+        value = decodeEntities(text.slice(j + 1, valueEnd))
+        j = valueEnd + 1
+      } else {
+        const valueStart = j
+        while (j < len && !isSpace(text.charCodeAt(j)) && text.charCodeAt(j) !== 62) j++
+        value = decodeEntities(text.slice(valueStart, j))
+      }
+    } else if (name.length === 0) {
+      j++ // stray character — skip it
+      continue
+    }
+    if (name) onAttribute(name, value)
+  }
+  return { end: len, selfClosing: true }
+}
+
+/** Index of the `>` closing a `<!DOCTYPE …>` declaration, honouring an internal `[ … ]` subset. */
+function findDeclarationEnd(text: string, pos: number): number {
+  let depth = 0
+  for (let j = pos; j < text.length; j++) {
+    const c = text.charCodeAt(j)
+    if (c === 91) depth++ // [
+    else if (c === 93) depth-- // ]
+    else if (c === 62 && depth <= 0) return j // >
+  }
+  return text.length - 1
+}
+
+/**
+ * Parse an XML string into an {@link XmlDocument}.
+ *
+ * Never throws — malformed input yields whatever tree could be recovered
+ * (possibly with a `null` document element), mirroring how the browser
+ * `DOMParser` returns an error document instead of failing.
+ */
+export function parseXml(text: string, options: ParseXmlOptions = {}): XmlDocument {
+  const { readers } = options
+  const doc = new XmlDocument()
+  const len = text.length
+  let current = null as XmlElement | null
+  let i = 0
+
+  while (i < len) {
+    const lt = text.indexOf('<', i)
+    const textEnd = lt === -1 ? len : lt
+    if (current && textEnd > i) current.childNodes.push(decodeEntities(text.slice(i, textEnd)))
+    if (lt === -1) break
+
+    const next = text.charCodeAt(lt + 1)
+
+    if (next === 33) {
+      // <!
+      if (text.startsWith('<!--', lt)) {
+        const end = text.indexOf('-->', lt + 4)
+        i = end === -1 ? len : end + 3
+      } else if (text.startsWith('<![CDATA[', lt)) {
+        const end = text.indexOf(']]>', lt + 9)
+        const cdataEnd = end === -1 ? len : end
+        if (current) current.childNodes.push(text.slice(lt + 9, cdataEnd))
+        i = cdataEnd + 3
+      } else {
+        i = findDeclarationEnd(text, lt + 2) + 1
+      }
+      continue
+    }
+
+    if (next === 63) {
+      // <?
+      const end = text.indexOf('?>', lt + 2)
+      i = end === -1 ? len : end + 2
+      continue
+    }
+
+    if (next === 47) {
+      // </name>
+      const gt = text.indexOf('>', lt + 2)
+      const closeEnd = gt === -1 ? len : gt
+      const name = text.slice(lt + 2, closeEnd).trim()
+      // Pop to the matching open element; ignore stray close tags
+      let node: XmlElement | null = current
+      while (node && node.tagName !== name) node = node.parentElement
+      if (node) current = node.parentElement
+      i = closeEnd + 1
+      continue
+    }
+
+    // Start tag
+    let j = lt + 1
+    while (j < len && !isNameEnd(text.charCodeAt(j))) j++
+    const tagName = text.slice(lt + 1, j)
+    if (!tagName) {
+      // A lone '<' in text content
+      if (current) current.childNodes.push('<')
+      i = lt + 1
+      continue
+    }
+
+    const el = new XmlElement(tagName)
+    const { end, selfClosing } = readAttributes(text, j, (name, value) => {
+      el.attributes.push({ name, localName: localPart(name), value })
+    })
+
+    if (current) {
+      el.parentNode = current
+      current.children.push(el)
+      current.childNodes.push(el)
+    } else if (!doc.documentElement) {
+      el.parentNode = doc
+      doc.documentElement = el
+    } else {
+      // Content after the root element is not well-formed — stop here
+      break
+    }
+
+    const reader = readers && !selfClosing ? readers[el.localName] : undefined
+    if (reader) {
+      const result = reader(text, end)
+      el.value = result.value
+      i = result.end
+      continue
+    }
+
+    if (!selfClosing) current = el
+    i = end
+  }
+
+  return doc
+}
@@ -40,22 +40,53 @@
  */
 
 // ─── Core (parser + types + exporter) ───────────────────────────────────────
-export { parse3MF, ThreeMFParseError } from './core/parser'
-export { calculateVolume, calculateBoundingBox } from './core/analyzer'
+export { parse3MF, ThreeMFParseError, ThreeMFEncryptedError } from './core/parser'
+export type { Parse3MFOptions } from './core/parser'
+export { parse3MFInWorker } from './core/workerClient'
+export type { Parse3MFInWorkerOptions } from './core/workerClient'
+export { calculateVolume, calculateSliceStackVolume, calculateBoundingBox } from './core/analyzer'
 export { export3MF, download3MF } from './core/exporter'
+export { loadGcodeToolpath, parseGcodeToolpath } from './core/gcode'
 export type { Export3MFOptions } from './core/exporter'
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 export type {
   ParsedThreeMF,
   MaterialSlot,
+  MaterialMixture,
+  FilamentProfile,
+  MixtureComponent,
   Plate,
   BoundingBox,
   ThreeMFMetadata,
+  ModelUnit,
+  ThreeMFSource,
+  ThreeMFTexture,
+  ThreeMFPlateImages,
+  PlateInstance,
+  PlateFiles,
+  PlateSliceInfo,
+  PlateFilamentUsage,
+  ThreeMFPlateGcode,
+  GcodeHeader,
+  GcodeToolpath,
+  ThreeMFSlice,
+  ThreeMFSliceStack,
+  ThreeMFTriangleSet,
+  ThreeMFObjectType,
+  ThreeMFBuildItem,
+  ThreeMFEncryptedResource,
+  ThreeMFKeystoreConsumer,
+  ThreeMFAccessRight,
+  ThreeMFDecryptCallback,
+  TextureTileStyle,
+  ParseStage,
+  ParseProgress,
+  ParseDiagnostic,
+  DiagnosticLevel,
   ViewerTheme,
   ColorOption,
   ThreeMFViewerProps,
-  ParsedTriangle,
   ParsedGeomObject,
 } from './core/types'
 
@@ -14,17 +14,28 @@ export interface ColorPickerProps {
 }
 
 /**
- * Colour picker for each material slot.
+ * Colour picker for each material slot, with an opacity slider for
+ * translucent filaments, plus a colour override per named triangle set.
  *
- * Only renders when the model has multiple colours detected.
+ * Only renders when the model has multiple colours detected or triangle sets.
  * Must be used inside a `<ThreeMFProvider>`.
  */
 export function ColorPicker({ colorOptions, theme: themeOverrides, className, style }: ColorPickerProps) {
-  const { isMultiColor, materialSlots, setSlotColor } = useThreeMF()
+  const {
+    isMultiColor,
+    materialSlots,
+    setSlotColor,
+    setSlotOpacity,
+    triangleSets,
+    triangleSetColors,
+    setTriangleSetColor,
+  } = useThreeMF()
   const theme = resolveTheme(themeOverrides)
   const colors = colorOptions ?? DEFAULT_COLOR_OPTIONS
 
-  if (!isMultiColor || materialSlots.length === 0) return null
+  const showSlots = isMultiColor && materialSlots.length > 0
+  const setNames = [...new Set([...(triangleSets?.values() ?? [])].flat().map((set) => set.name))]
+  if (!showSlots && setNames.length === 0) return null
 
   const rootStyle: React.CSSProperties = {
     background: `${theme.surface}33`,
@@ -35,6 +46,48 @@ export function ColorPicker({ colorOptions, theme: themeOverrides, className, st
     ...style,
   }
 
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 8,
+    padding: '6px 8px',
+    borderRadius: 6,
+    background: `${theme.surface}80`,
+    border: `1px solid ${theme.surface}`,
+  }
+
+  const selectStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    fontSize: 11,
+    borderRadius: 4,
+    background: theme.background,
+    border: `1px solid ${theme.surface}`,
+    color: theme.text,
+    outline: 'none',
+    cursor: 'pointer',
+  }
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: 11,
+    color: theme.textMuted,
+    flexShrink: 0,
+    width: 80,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  }
+
+  const swatchStyle = (color: string): React.CSSProperties => ({
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    border: `1px solid ${theme.surface}`,
+    backgroundColor: colorToCss(color),
+    flexShrink: 0,
+  })
+
   return (
     <div className={className} style={rootStyle}>
       <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12 }}>
@@ -45,98 +98,117 @@ export function ColorPicker({ colorOptions, theme: themeOverrides, className, st
             d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01"
           />
         </svg>
-        <span style={{ fontSize: 12, fontWeight: 500, color: theme.textMuted }}>Multi-color</span>
+        <span style={{ fontSize: 12, fontWeight: 500, color: theme.textMuted }}>
+          {showSlots ? 'Multi-color' : 'Triangle sets'}
+        </span>
       </div>
 
-      <p style={{ fontSize: 11, color: theme.textMuted, marginBottom: 12 }}>
-        {materialSlots.length} filament{materialSlots.length !== 1 ? 's' : ''} — select colors:
-      </p>
+      {showSlots && (
+        <>
+          <p style={{ fontSize: 11, color: theme.textMuted, marginBottom: 12 }}>
+            {materialSlots.length} filament{materialSlots.length !== 1 ? 's' : ''} — select colors:
+          </p>
 
-      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-        {materialSlots.map((slot, index) => {
-          const isHexColor = slot.selectedColor.startsWith('#')
-          const originalColorHex = slot.id.startsWith('#') ? slot.id : null
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+            {materialSlots.map((slot, index) => {
+              const isHexColor = slot.selectedColor.startsWith('#')
+              const originalColorHex = slot.id.startsWith('#') ? slot.id : null
+              const opacityPercent = Math.round((slot.opacity ?? 1) * 100)
 
-          return (
-            <div
-              key={slot.id}
-              style={{
-                display: 'flex',
-                alignItems: 'center',
-                gap: 8,
-                padding: '6px 8px',
-                borderRadius: 6,
-                background: `${theme.surface}80`,
-                border: `1px solid ${theme.surface}`,
-              }}
-            >
-              {originalColorHex && (
-                <div
-                  style={{
-                    width: 16,
-                    height: 16,
-                    borderRadius: 3,
-                    border: `1px solid ${theme.textMuted}`,
-                    backgroundColor: originalColorHex,
-                    flexShrink: 0,
-                  }}
-                  title={`Original: ${originalColorHex}`}
-                />
-              )}
-              <span
-                style={{
-                  fontSize: 11,
-                  color: theme.textMuted,
-                  flexShrink: 0,
-                  width: 80,
-                  overflow: 'hidden',
-                  textOverflow: 'ellipsis',
-                  whiteSpace: 'nowrap',
-                }}
-                title={slot.name || `Slot ${index + 1}`}
-              >
-                {slot.name || `Filament ${index + 1}`}
-              </span>
-              <div style={{ flex: 1, display: 'flex', alignItems: 'center', gap: 8, minWidth: 0 }}>
-                <div
-                  style={{
-                    width: 20,
-                    height: 20,
-                    borderRadius: 4,
-                    border: `1px solid ${theme.surface}`,
-                    backgroundColor: colorToCss(slot.selectedColor),
-                    flexShrink: 0,
-                  }}
-                  title={slot.selectedColor}
-                />
-                <select
-                  value={slot.selectedColor}
-                  onChange={(e) => setSlotColor(slot.id, e.target.value)}
-                  style={{
-                    flex: 1,
-                    minWidth: 0,
-                    padding: '6px 8px',
-                    fontSize: 11,
-                    borderRadius: 4,
-                    background: theme.background,
-                    border: `1px solid ${theme.surface}`,
-                    color: theme.text,
-                    outline: 'none',
-                    cursor: 'pointer',
-                  }}
-                >
-                  {isHexColor && <option value={slot.selectedColor}>Original ({slot.selectedColor})</option>}
-                  {colors.map((c) => (
-                    <option key={c.name} value={c.name}>
-                      {c.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
-          )
-        })}
-      </div>
+              return (
+                <div key={slot.id} style={rowStyle}>
+                  {originalColorHex && (
+                    <div
+                      style={{
+                        width: 16,
+                        height: 16,
+                        borderRadius: 3,
+                        border: `1px solid ${theme.textMuted}`,
+                        backgroundColor: originalColorHex,
+                        flexShrink: 0,
+                      }}
+                      title={`Original: ${originalColorHex}`}
+                    />
+                  )}
+                  <span style={labelStyle} title={slot.name || `Slot ${index + 1}`}>
+                    {slot.name || `Filament ${index + 1}`}
+                  </span>
+                  <div style={{ flex: 1, display: 'flex', alignItems: 'center', gap: 8, minWidth: 0 }}>
+                    <div
+                      style={{ ...swatchStyle(slot.selectedColor), opacity: slot.opacity ?? 1 }}
+                      title={slot.selectedColor}
+                    />
+                    <select
+                      value={slot.selectedColor}
+                      onChange={(e) => setSlotColor(slot.id, e.target.value)}
+                      style={selectStyle}
+                    >
+                      {isHexColor && <option value={slot.selectedColor}>Original ({slot.selectedColor})</option>}
+                      {colors.map((c) => (
+                        <option key={c.name} value={c.name}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={opacityPercent}
+                      onChange={(e) => setSlotOpacity(slot.id, Number(e.target.value) / 100)}
+                      aria-label={`${slot.name || `Filament ${index + 1}`} opacity`}
+                      title={`Opacity ${opacityPercent}%`}
+                      style={{ width: 56, flexShrink: 0, accentColor: theme.accent, cursor: 'pointer' }}
+                    />
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+
+      {setNames.length > 0 && (
+        <>
+          <p style={{ fontSize: 11, color: theme.textMuted, margin: showSlots ? '12px 0' : '0 0 12px' }}>
+            {setNames.length} triangle set{setNames.length !== 1 ? 's' : ''} — override colors:
+          </p>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+            {setNames.map((name, index) => {
+              const setColor = triangleSetColors[name]
+              const label = name || `Set ${index + 1}`
+              return (
+                <div key={name} style={rowStyle}>
+                  <span style={labelStyle} title={label}>
+                    {label}
+                  </span>
+                  <div style={{ flex: 1, display: 'flex', alignItems: 'center', gap: 8, minWidth: 0 }}>
+                    {setColor ? (
+                      <div style={swatchStyle(setColor)} title={setColor} />
+                    ) : (
+                      <div style={{ ...swatchStyle('transparent'), border: `1px dashed ${theme.textMuted}` }} />
+                    )}
+                    <select
+                      value={setColor ?? ''}
+                      onChange={(e) => setTriangleSetColor(name, e.target.value || null)}
+                      aria-label={`${label} color`}
+                      style={selectStyle}
+                    >
+                      <option value="">Slot colors</option>
+                      {colors.map((c) => (
+                        <option key={c.name} value={c.name}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
     </div>
   )
 }
@@ -1,5 +1,6 @@
+import { useEffect, useState } from 'react'
 import { useThreeMF } from './context'
-import type { ViewerTheme } from '../core/types'
+import type { Plate, ViewerTheme } from '../core/types'
 import { resolveTheme } from '../styles/theme'
 
 export interface PlateSelectorProps {
@@ -12,7 +13,8 @@ export interface PlateSelectorProps {
 }
 
 /**
- * Plate selector dropdown.
+ * Plate selector — a grid of plate thumbnails when the file carries plate
+ * preview images (`Plate.images`), otherwise a dropdown.
  *
  * Only renders when the model has multiple plates.
  * Must be used inside a `<ThreeMFProvider>`.
@@ -22,6 +24,8 @@ export function PlateSelector({ theme: themeOverrides, className, style }: Plate
   const theme = resolveTheme(themeOverrides)
 
   if (!plates || plates.length <= 1) return null
+  const hasImages = plates.some((plate) => plate.images?.thumbnail || plate.images?.small)
+  const selectedPlate = plates.find((p) => p.id === selectedPlateId)
 
   return (
     <div className={className} style={{ fontFamily: theme.fontFamily, ...style }}>
@@ -36,32 +40,93 @@ export function PlateSelector({ theme: themeOverrides, className, style }: Plate
       >
         Plate
       </label>
-      <select
-        value={selectedPlateId ?? ''}
-        onChange={(e) => selectPlate(e.target.value ? parseInt(e.target.value) : null)}
-        style={{
-          width: '100%',
-          padding: '10px 12px',
-          borderRadius: 8,
-          background: theme.background,
-          border: `1px solid ${theme.border}`,
-          color: theme.text,
-          fontSize: 13,
-          outline: 'none',
-          cursor: 'pointer',
-        }}
-      >
-        {plates.map((plate) => (
-          <option key={plate.id} value={plate.id}>
-            {plate.name} ({plate.objectIds.length} object{plate.objectIds.length !== 1 ? 's' : ''})
-          </option>
-        ))}
-      </select>
-      {selectedPlateId && (
+      {hasImages ? (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(88px, 1fr))', gap: 8 }}>
+          {plates.map((plate) => {
+            const selected = plate.id === selectedPlateId
+            return (
+              <button
+                key={plate.id}
+                type="button"
+                onClick={() => selectPlate(plate.id)}
+                aria-pressed={selected}
+                title={`${plate.name} (${plate.objectIds.length} object${plate.objectIds.length !== 1 ? 's' : ''})`}
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'stretch',
+                  gap: 4,
+                  padding: 4,
+                  borderRadius: 8,
+                  background: theme.background,
+                  border: `1px solid ${selected ? theme.accent : theme.border}`,
+                  color: selected ? theme.text : theme.textMuted,
+                  fontFamily: theme.fontFamily,
+                  fontSize: 11,
+                  cursor: 'pointer',
+                }}
+              >
+                <PlateThumbnail plate={plate} />
+                {plate.name}
+              </button>
+            )
+          })}
+        </div>
+      ) : (
+        <select
+          value={selectedPlateId ?? ''}
+          onChange={(e) => selectPlate(e.target.value ? parseInt(e.target.value) : null)}
+          style={{
+            width: '100%',
+            padding: '10px 12px',
+            borderRadius: 8,
+            background: theme.background,
+            border: `1px solid ${theme.border}`,
+            color: theme.text,
+            fontSize: 13,
+            outline: 'none',
+            cursor: 'pointer',
+          }}
+        >
+          {plates.map((plate) => (
+            <option key={plate.id} value={plate.id}>
+              {plate.name} ({plate.objectIds.length} object{plate.objectIds.length !== 1 ? 's' : ''})
+            </option>
+          ))}
+        </select>
+      )}
+      {selectedPlate && (
         <p style={{ fontSize: 11, color: theme.textMuted, marginTop: 8 }}>
-          Showing objects from {plates.find((p) => p.id === selectedPlateId)?.name}
+          Showing objects from {selectedPlate.name}
+          {selectedPlate.bedType && ` · ${selectedPlate.bedType.replace(/_/g, ' ')}`}
         </p>
       )}
     </div>
   )
 }
+
+/** A plate's preview image (the small render when there is one), or its number as a placeholder. */
+function PlateThumbnail({ plate }: { plate: Plate }) {
+  const image = plate.images?.small ?? plate.images?.thumbnail
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!image) return
+    const objectUrl = URL.createObjectURL(image)
+    setUrl(objectUrl)
+    return () => {
+      URL.revokeObjectURL(objectUrl)
+      setUrl(null)
+    }
+  }, [image])
+
+  const boxStyle: React.CSSProperties = { width: '100%', aspectRatio: '1', borderRadius: 6, objectFit: 'contain' }
+  if (!image || !url) {
+    return (
+      <span style={{ ...boxStyle, display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: 18 }}>
+        {plate.id}
+      </span>
+    )
+  }
+  return <img src={url} alt={plate.name} style={boxStyle} />
+}
@@ -3,8 +3,32 @@ import * as THREE from 'three'
 import { BufferAttribute } from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
 import { useThreeMF } from './context'
-import type { MaterialSlot, ViewerTheme } from '../core/types'
+import type {
+  DiagnosticLevel,
+  GcodeToolpath,
+  MaterialSlot,
+  ParseStage,
+  TextureTileStyle,
+  ThreeMFSliceStack,
+  ThreeMFTexture,
+  ViewerTheme,
+} from '../core/types'
 import { resolveTheme, colorToHex } from '../styles/theme'
+import { loadGcodeToolpath } from '../core/gcode'
+
+const DIAGNOSTIC_COLORS: Record<DiagnosticLevel, string> = {
+  info: 'rgba(74,222,128,0.6)',
+  warning: '#facc15',
+  error: '#f87171',
+}
+
+const PROGRESS_LABELS: Record<ParseStage, string> = {
+  unzip: 'Unzipping',
+  model: 'Reading model',
+  external: 'Reading objects',
+  config: 'Reading slicer settings',
+  geometry: 'Building geometry',
+}
 
 // ---------------------------------------------------------------------------
 // Multi-material group builder
@@ -63,9 +87,7 @@ function buildMultiMaterialGeometry(
   for (const g of groups) geom.addGroup(g.start, g.count, g.materialIndex)
   geom.computeVertexNormals()
 
-  const materials = slotOrder.map((si) =>
-    new THREE.MeshPhongMaterial({ color: colorToHex(slots[si].selectedColor), specular: 0x111111, shininess: 200 }),
-  )
+  const materials = slotOrder.map((si) => makeMaterial(colorToHex(slots[si].selectedColor), slots[si].opacity))
 
   return { geometry: geom, materials, slotOrder }
 }
@@ -74,7 +96,7 @@ function buildMultiMaterialGeometry(
 // Scene helpers
 // ---------------------------------------------------------------------------
 
-function centerAndScale(meshes: THREE.Mesh[], scene: THREE.Scene) {
+function centerAndScale(meshes: THREE.Object3D[], scene: THREE.Scene) {
   if (meshes.length === 0) return
   const tmp = new THREE.Group()
   meshes.forEach((m) => tmp.add(m))
@@ -93,8 +115,168 @@ function centerAndScale(meshes: THREE.Mesh[], scene: THREE.Scene) {
   })
 }
 
-function makeMaterial(hex: number): THREE.MeshPhongMaterial {
-  return new THREE.MeshPhongMaterial({ color: hex, specular: 0x111111, shininess: 200 })
+function makeMaterial(hex: number, opacity?: number): THREE.MeshPhongMaterial {
+  const material = new THREE.MeshPhongMaterial({ color: hex, specular: 0x111111, shininess: 200 })
+  setOpacity(material, opacity)
+  return material
+}
+
+/** Translucent materials skip depth writes so the surfaces behind them still show. */
+function setOpacity(material: THREE.MeshPhongMaterial, opacity = 1): void {
+  const transparent = opacity < 1
+  if (material.transparent !== transparent) material.needsUpdate = true
+  material.transparent = transparent
+  material.opacity = opacity
+  material.depthWrite = !transparent
+}
+
+/** Layer outlines of a slice stack as line segments, placed by the geometry's build transform. */
+function buildSliceOutlines(stack: ThreeMFSliceStack, transform?: THREE.Matrix4): THREE.BufferGeometry {
+  let segments = 0
+  for (const slice of stack.slices) for (const polygon of slice.polygons) segments += Math.max(0, polygon.length - 1)
+
+  const positions = new Float32Array(segments * 6)
+  let o = 0
+  for (const slice of stack.slices) {
+    const v = slice.vertices
+    const vertexCount = v.length / 2
+    for (const polygon of slice.polygons) {
+      for (let i = 0; i + 1 < polygon.length; i++) {
+        const a = polygon[i]
+        const b = polygon[i + 1]
+        if (a >= vertexCount || b >= vertexCount) continue
+        positions.set([v[a * 2], v[a * 2 + 1], slice.zTop, v[b * 2], v[b * 2 + 1], slice.zTop], o)
+        o += 6
+      }
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(positions.subarray(0, o), 3))
+  if (transform) geometry.applyMatrix4(transform)
+  return geometry
+}
+
+/**
+ * Non-indexed copy of some of a geometry's triangles (positions and normals),
+ * drawn over the mesh to recolour or highlight a triangle set.
+ */
+function buildTriangleSubset(src: THREE.BufferGeometry, triangles: Uint32Array): THREE.BufferGeometry {
+  const pos = src.attributes.position
+  const normal = src.attributes.normal
+  const index = src.index
+  const triCount = (index ? index.count : pos.count) / 3
+
+  const positions = new Float32Array(triangles.length * 9)
+  const normals = new Float32Array(triangles.length * 9)
+  let o = 0
+  for (const t of triangles) {
+    if (t >= triCount) continue
+    for (let c = 0; c < 3; c++) {
+      const v = index ? index.getX(t * 3 + c) : t * 3 + c
+      positions.set([pos.getX(v), pos.getY(v), pos.getZ(v)], o)
+      if (normal) normals.set([normal.getX(v), normal.getY(v), normal.getZ(v)], o)
+      o += 3
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(positions.subarray(0, o), 3))
+  geometry.setAttribute('normal', new BufferAttribute(normals.subarray(0, o), 3))
+  return geometry
+}
+
+/** Overlay material — pulled towards the camera so it wins the depth test against the faces it covers. */
+function makeOverlayMaterial(): THREE.MeshPhongMaterial {
+  const material = makeMaterial(0xffffff)
+  material.polygonOffset = true
+  material.polygonOffsetFactor = -1
+  material.polygonOffsetUnits = -1
+  return material
+}
+
+/** Show the triangle set overlays that are recoloured or highlighted; the highlight wins. */
+function styleTriangleSets(
+  meshes: THREE.Mesh[],
+  setColors: Record<string, string>,
+  highlight: string | undefined,
+  highlightHex: number,
+): void {
+  for (const mesh of meshes) {
+    for (const child of mesh.children) {
+      const name = child.userData.triangleSet as string | undefined
+      if (name === undefined || !(child instanceof THREE.Mesh)) continue
+      const override = setColors[name]
+      const hex = name === highlight ? highlightHex : override !== undefined ? colorToHex(override) : null
+      child.visible = hex !== null
+      if (hex !== null) (child.material as THREE.MeshPhongMaterial).color.setHex(hex)
+    }
+  }
+}
+
+/** G-code extrusion moves as lines, coloured by the tool (filament) that prints them. */
+function buildToolpathGeometry(
+  toolpath: GcodeToolpath,
+  toolColors: (string | undefined)[],
+  fallbackHex: number,
+): THREE.BufferGeometry {
+  const palette = new Map<number, THREE.Color>()
+  const colors = new Float32Array(toolpath.positions.length)
+  for (let s = 0; s < toolpath.tools.length; s++) {
+    const tool = toolpath.tools[s]
+    let color = palette.get(tool)
+    if (!color) {
+      const css = toolColors[tool]
+      color = new THREE.Color(css ? colorToHex(css) : fallbackHex)
+      palette.set(tool, color)
+    }
+    colors.set([color.r, color.g, color.b, color.r, color.g, color.b], s * 6)
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(toolpath.positions, 3))
+  geometry.setAttribute('color', new BufferAttribute(colors, 3))
+  return geometry
+}
+
+/** Hide or show the meshes of `support` / `solidsupport` objects (tagged `userData.objectType`). */
+function setSupportVisibility(meshes: THREE.Mesh[], visible: boolean): void {
+  for (const mesh of meshes) {
+    const type = mesh.userData.objectType
+    if (type === 'support' || type === 'solidsupport') mesh.visible = visible
+  }
+}
+
+/** Dispose the slice outlines and triangle set overlays attached to a mesh. */
+function disposeOverlays(mesh: THREE.Mesh): void {
+  for (const child of mesh.children) {
+    if (child instanceof THREE.LineSegments || child instanceof THREE.Mesh) {
+      child.geometry.dispose()
+      ;(child.material as THREE.Material).dispose()
+    }
+  }
+}
+
+const TILE_WRAPPING: Record<TextureTileStyle, THREE.Wrapping> = {
+  wrap: THREE.RepeatWrapping,
+  mirror: THREE.MirroredRepeatWrapping,
+  clamp: THREE.ClampToEdgeWrapping,
+  none: THREE.ClampToEdgeWrapping,
+}
+
+/** Upload a 3MF texture image. The object URL is revoked once the image has loaded. */
+function createTexture(tex: ThreeMFTexture): THREE.Texture {
+  const url = URL.createObjectURL(tex.image)
+  const revoke = () => URL.revokeObjectURL(url)
+  const texture = new THREE.TextureLoader().load(url, revoke, undefined, revoke)
+  texture.colorSpace = THREE.SRGBColorSpace
+  texture.wrapS = TILE_WRAPPING[tex.tileStyleU]
+  texture.wrapT = TILE_WRAPPING[tex.tileStyleV]
+  if (tex.filter === 'nearest') {
+    texture.magFilter = THREE.NearestFilter
+    texture.minFilter = THREE.NearestFilter
+  }
+  return texture
 }
 
 // ---------------------------------------------------------------------------
@@ -110,6 +292,17 @@ export interface ViewerProps {
   style?: React.CSSProperties
   /** Show multicolor debug overlay. Default: false. */
   showDebugOverlay?: boolean
+  /** Draw Slice extension layers (`sliceStacks`) as outlines on their objects. Default: true. */
+  showSlices?: boolean
+  /** Name of a triangle set (`triangleSets`) to highlight in the theme accent colour, on every object that has it. */
+  highlightTriangleSet?: string
+  /** Show `support` / `solidsupport` objects (`geometryTypes`). Default: true. */
+  showSupports?: boolean
+  /**
+   * Draw the selected plate's G-code toolpath (`Plate.gcode`) instead of the
+   * model. Default: only for sliced packages without geometry.
+   */
+  showToolpath?: boolean
 }
 
 /**
@@ -117,9 +310,19 @@ export interface ViewerProps {
  *
  * Must be used inside a `<ThreeMFProvider>`.
  */
-export function Viewer({ theme: themeOverrides, className, style, showDebugOverlay }: ViewerProps) {
+export function Viewer({
+  theme: themeOverrides,
+  className,
+  style,
+  showDebugOverlay,
+  showSlices = true,
+  highlightTriangleSet,
+  showSupports = true,
+  showToolpath,
+}: ViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const theme = resolveTheme(themeOverrides)
+  const highlightHex = new THREE.Color(theme.accent).getHex()
 
   // Persistent Three.js objects
   const sceneRef = useRef<THREE.Scene | null>(null)
@@ -137,11 +340,14 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
   const {
     model,
     loading,
+    progress,
     error,
     geometries,
     materialSlots,
     isMultiColor,
     triangleMaterialMaps,
+    triangleSets,
+    triangleSetColors,
     selectedPlateId,
     plates,
     plateObjectMap,
@@ -150,8 +356,36 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
     color,
   } = useThreeMF()
 
+  const diagnostics = model?.diagnostics ?? []
+  const textureMaps = model?.textureMaps
+  const sliceStacks = model?.sliceStacks
+  const geometryTransforms = model?.geometryTransforms
+  const geometryTypes = model?.geometryTypes
+  const filaments = model?.filaments
+
+  // G-code preview: the selected plate's toolpath, else the first plate that has one
+  const toolpathGcode = useMemo(() => {
+    const withGcode = plates?.filter((p) => p.gcode) ?? []
+    if (withGcode.length === 0 || !(showToolpath ?? geometries.length === 0)) return null
+    return (withGcode.find((p) => p.id === selectedPlateId) ?? withGcode[0]).gcode ?? null
+  }, [plates, selectedPlateId, showToolpath, geometries.length])
+
+  // One GPU texture per image, shared by every mesh that samples it
+  const texturesRef = useRef<Map<ThreeMFTexture, THREE.Texture>>(new Map())
+  useEffect(() => {
+    const textures = texturesRef.current
+    return () => {
+      textures.forEach((t) => t.dispose())
+      textures.clear()
+    }
+  }, [textureMaps])
+
   const slotsRef = useRef(materialSlots)
   slotsRef.current = materialSlots
+  const triangleSetStyleRef = useRef({ triangleSetColors, highlightTriangleSet, highlightHex })
+  triangleSetStyleRef.current = { triangleSetColors, highlightTriangleSet, highlightHex }
+  const showSupportsRef = useRef(showSupports)
+  showSupportsRef.current = showSupports
 
   // -----------------------------------------------------------------------
   // Plate filtering
@@ -173,12 +407,11 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
 
     const gSet = new Set<number>()
     for (const oid of objIds) {
+      // Composites first — objectIdToGeometryIndex only maps a composite to its first part
+      const children = compositeToGeometryMap?.get(oid)
+      if (children) { children.forEach((cid) => { const ci = objectIdToGeometryIndex?.get(cid); if (ci !== undefined) gSet.add(ci) }); continue }
       const direct = objectIdToGeometryIndex?.get(oid)
-      if (direct !== undefined) { gSet.add(direct); continue }
-      if (compositeToGeometryMap) {
-        const children = compositeToGeometryMap.get(oid)
-        if (children) { children.forEach((cid) => { const ci = objectIdToGeometryIndex?.get(cid); if (ci !== undefined) gSet.add(ci) }); continue }
-      }
+      if (direct !== undefined) gSet.add(direct)
     }
     if (gSet.size === 0) return fallback
     const sorted = [...gSet].sort((a, b) => a - b)
@@ -264,6 +497,7 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
 
     for (const m of meshesRef.current) {
       scene.remove(m)
+      disposeOverlays(m)
       if (ownedGeomsRef.current.has(m.geometry)) { m.geometry.dispose(); ownedGeomsRef.current.delete(m.geometry) }
       const mat = m.material
       if (Array.isArray(mat)) mat.forEach((mt) => mt.dispose())
@@ -277,12 +511,32 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
       const clr = color
       const newMeshes: THREE.Mesh[] = []
       const newSlotOrder = new Map<number, number[]>()
+      const meshGeometryIndices: number[] = []
 
-      if (filteredGeometries.length > 0) {
+      if (filteredGeometries.length > 0 && !toolpathGcode) {
         for (let fi = 0; fi < filteredGeometries.length; fi++) {
           const geom = filteredGeometries[fi]
           if (!geom) continue
           const oi = originalIndices[fi] ?? fi
+          // Every path below adds exactly one mesh for this geometry
+          meshGeometryIndices.push(oi)
+
+          // Textures and per-vertex gradients carry their own colour — render them on a white base
+          const tex = textureMaps?.get(oi)
+          if (tex || geom.attributes.color) {
+            const material = makeMaterial(0xffffff)
+            material.vertexColors = !!geom.attributes.color
+            if (tex) {
+              let texture = texturesRef.current.get(tex)
+              if (!texture) {
+                texture = createTexture(tex)
+                texturesRef.current.set(tex, texture)
+              }
+              material.map = texture
+            }
+            newMeshes.push(new THREE.Mesh(geom, material))
+            continue
+          }
 
           if (isMultiColor && slots.length > 1) {
             const triMap = triangleMaterialMaps?.get(oi)
@@ -301,7 +555,7 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
               const hex = [...uniq][0]
               const si = slots.findIndex((s) => s.id === hex)
               const slot = si >= 0 ? slots[si] : null
-              const mesh = new THREE.Mesh(geom, makeMaterial(colorToHex(slot?.selectedColor ?? hex)))
+              const mesh = new THREE.Mesh(geom, makeMaterial(colorToHex(slot?.selectedColor ?? hex), slot?.opacity))
               if (si >= 0) newSlotOrder.set(newMeshes.length, [si])
               newMeshes.push(mesh)
               continue
@@ -310,14 +564,50 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
             const geomSlots = slots.map((s, i) => ({ s, i })).filter(({ s }) => s.objectIds.includes(oi))
             if (geomSlots.length > 0) {
               const { s: slot, i: si } = geomSlots[0]
-              const mesh = new THREE.Mesh(geom, makeMaterial(colorToHex(slot.selectedColor)))
+              const mesh = new THREE.Mesh(geom, makeMaterial(colorToHex(slot.selectedColor), slot.opacity))
               newSlotOrder.set(newMeshes.length, [si])
               newMeshes.push(mesh)
               continue
             }
           }
 
-          newMeshes.push(new THREE.Mesh(geom, makeMaterial(colorToHex(clr))))
+          const opacity = isMultiColor ? undefined : slots[0]?.opacity
+          newMeshes.push(new THREE.Mesh(geom, makeMaterial(colorToHex(clr), opacity)))
+        }
+
+        // Slice extension layers: outlines share their mesh's colour (and follow its updates)
+        if (showSlices && sliceStacks) {
+          newMeshes.forEach((mesh, mi) => {
+            const oi = meshGeometryIndices[mi]
+            const stack = sliceStacks.get(oi)
+            if (!stack) return
+            const meshMaterial = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material
+            const lineMaterial = new THREE.LineBasicMaterial()
+            lineMaterial.color = (meshMaterial as THREE.MeshPhongMaterial).color
+            mesh.add(new THREE.LineSegments(buildSliceOutlines(stack, geometryTransforms?.[oi]), lineMaterial))
+          })
+        }
+
+        // Triangle sets: hidden overlays, shown when a set is recoloured or highlighted (see Effect 3)
+        if (triangleSets) {
+          newMeshes.forEach((mesh, mi) => {
+            const oi = meshGeometryIndices[mi]
+            for (const set of triangleSets.get(oi) ?? []) {
+              const overlay = new THREE.Mesh(buildTriangleSubset(geometries[oi], set.triangles), makeOverlayMaterial())
+              overlay.userData.triangleSet = set.name
+              overlay.visible = false
+              mesh.add(overlay)
+            }
+          })
+          const { triangleSetColors: setColors, highlightTriangleSet: highlight, highlightHex: hex } =
+            triangleSetStyleRef.current
+          styleTriangleSets(newMeshes, setColors, highlight, hex)
+        }
+
+        // Object types: supports can be hidden (Effect 4) without a rebuild
+        if (geometryTypes) {
+          newMeshes.forEach((mesh, mi) => (mesh.userData.objectType = geometryTypes[meshGeometryIndices[mi]]))
+          setSupportVisibility(newMeshes, showSupportsRef.current)
         }
 
         meshesRef.current = newMeshes
@@ -340,6 +630,7 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
     return () => {
       for (const m of currentMeshes) {
         scene.remove(m)
+        disposeOverlays(m)
         if (currentOwnedGeoms.has(m.geometry)) { m.geometry.dispose(); currentOwnedGeoms.delete(m.geometry) }
         const mat = m.material
         if (Array.isArray(mat)) mat.forEach((mt) => mt.dispose())
@@ -349,7 +640,21 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
       slotOrderRef.current.clear()
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filteredGeometries, originalIndices, isMultiColor, materialSlots.length, triangleMaterialMaps, selectedPlateId])
+  }, [
+    filteredGeometries,
+    originalIndices,
+    isMultiColor,
+    materialSlots.length,
+    triangleMaterialMaps,
+    textureMaps,
+    sliceStacks,
+    geometryTransforms,
+    showSlices,
+    triangleSets,
+    geometryTypes,
+    selectedPlateId,
+    toolpathGcode,
+  ])
 
   // =======================================================================
   // EFFECT 3 — Lightweight colour update
@@ -364,14 +669,17 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
       if (Array.isArray(mat) && order.length === mat.length) {
         for (let gi = 0; gi < order.length; gi++) {
           const slot = materialSlots[order[gi]]
-          if (slot && mat[gi]) (mat[gi] as THREE.MeshPhongMaterial).color.setHex(colorToHex(slot.selectedColor))
+          if (slot && mat[gi]) {
+            ;(mat[gi] as THREE.MeshPhongMaterial).color.setHex(colorToHex(slot.selectedColor))
+            setOpacity(mat[gi] as THREE.MeshPhongMaterial, slot.opacity)
+          }
         }
       } else if (order.length === 1) {
         const slot = materialSlots[order[0]]
         if (slot) {
-          ;((Array.isArray(mat) ? mat[0] : mat) as THREE.MeshPhongMaterial).color.setHex(
-            colorToHex(slot.selectedColor),
-          )
+          const material = (Array.isArray(mat) ? mat[0] : mat) as THREE.MeshPhongMaterial
+          material.color.setHex(colorToHex(slot.selectedColor))
+          setOpacity(material, slot.opacity)
         }
       }
     }
@@ -379,10 +687,58 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
     if (!isMultiColor) {
       for (const m of meshesRef.current) {
         const mat = m.material
-        if (!Array.isArray(mat)) (mat as THREE.MeshPhongMaterial).color.setHex(colorToHex(color))
+        // Textured / vertex-coloured meshes keep a white base so their own colours show true
+        if (!Array.isArray(mat) && !(mat as THREE.MeshPhongMaterial).map && !mat.vertexColors) {
+          ;(mat as THREE.MeshPhongMaterial).color.setHex(colorToHex(color))
+          setOpacity(mat as THREE.MeshPhongMaterial, materialSlots[0]?.opacity)
+        }
       }
     }
-  }, [materialSlots, color, isMultiColor])
+
+    styleTriangleSets(meshesRef.current, triangleSetColors, highlightTriangleSet, highlightHex)
+  }, [materialSlots, color, isMultiColor, triangleSetColors, highlightTriangleSet, highlightHex])
+
+  // =======================================================================
+  // EFFECT 4 — Support visibility
+  // =======================================================================
+  useEffect(() => {
+    setSupportVisibility(meshesRef.current, showSupports)
+  }, [showSupports])
+
+  // =======================================================================
+  // EFFECT 5 — G-code toolpath preview
+  // =======================================================================
+  useEffect(() => {
+    const scene = sceneRef.current
+    if (!scene || !toolpathGcode) return
+
+    // Toolpaths aren't part of the parse result; build this plate's now (superseded loads are dropped)
+    let lines: THREE.LineSegments | null = null
+    let cancelled = false
+    setDebugInfo('Reading G-code…')
+    loadGcodeToolpath(toolpathGcode)
+      .then((toolpath) => {
+        if (cancelled) return
+        const toolColors = filaments?.map((f) => f.color) ?? []
+        lines = new THREE.LineSegments(
+          buildToolpathGeometry(toolpath, toolColors, highlightHex),
+          new THREE.LineBasicMaterial({ vertexColors: true }),
+        )
+        centerAndScale([lines], scene)
+        setDebugInfo(`${toolpath.tools.length} toolpath segments${toolpath.truncated ? ' (truncated)' : ''}`)
+      })
+      .catch((e) => {
+        if (!cancelled) setDebugInfo(`ERROR: ${e instanceof Error ? e.message : 'unknown'}`)
+      })
+
+    return () => {
+      cancelled = true
+      if (!lines) return
+      scene.remove(lines)
+      lines.geometry.dispose()
+      ;(lines.material as THREE.Material).dispose()
+    }
+  }, [toolpathGcode, filaments, highlightHex])
 
   // -----------------------------------------------------------------------
   // Styles
@@ -411,7 +767,31 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
 
   return (
     <div ref={containerRef} className={className} style={containerStyle}>
-      {showLoading && (
+      {showLoading && loading && progress ? (
+        <div style={overlayStyle}>
+          <div style={{ width: '60%', maxWidth: 320, textAlign: 'center', fontFamily: theme.fontFamily }}>
+            <div
+              style={{ height: 6, borderRadius: 3, background: theme.surface, overflow: 'hidden' }}
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress.fraction * 100)}
+            >
+              <div
+                style={{
+                  width: `${progress.fraction * 100}%`,
+                  height: '100%',
+                  background: theme.accent,
+                  transition: 'width 0.15s ease-out',
+                }}
+              />
+            </div>
+            <div style={{ marginTop: 8, fontSize: 11, color: theme.textMuted }}>
+              {PROGRESS_LABELS[progress.stage]} · {Math.round(progress.fraction * 100)}%
+            </div>
+          </div>
+        </div>
+      ) : showLoading && (
         <div style={overlayStyle}>
           <div
             style={{
@@ -432,7 +812,7 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
           </div>
         </div>
       )}
-      {showDebugOverlay && isMultiColor && materialSlots.length > 1 && (
+      {showDebugOverlay && ((isMultiColor && materialSlots.length > 1) || diagnostics.length > 0) && (
         <div
           style={{
             position: 'absolute',
@@ -446,25 +826,42 @@ export function Viewer({ theme: themeOverrides, className, style, showDebugOverl
             fontFamily: theme.fontFamily,
             color: '#4ade80',
             pointerEvents: 'none',
-            maxWidth: 200,
+            maxWidth: 280,
           }}
         >
-          <div>🎨 {materialSlots.length} colors</div>
-          <div style={{ display: 'flex', gap: 3, marginTop: 4, flexWrap: 'wrap' }}>
-            {materialSlots.map((s, i) => (
-              <div
-                key={i}
-                style={{
-                  width: 12,
-                  height: 12,
-                  borderRadius: 2,
-                  border: '1px solid rgba(255,255,255,0.3)',
-                  backgroundColor: s.selectedColor.startsWith('#') ? s.selectedColor : undefined,
-                }}
-                title={`${s.name}: ${s.selectedColor}`}
-              />
-            ))}
-          </div>
+          {isMultiColor && materialSlots.length > 1 && (
+            <>
+              <div>🎨 {materialSlots.length} colors</div>
+              <div style={{ display: 'flex', gap: 3, marginTop: 4, flexWrap: 'wrap' }}>
+                {materialSlots.map((s, i) => (
+                  <div
+                    key={i}
+                    style={{
+                      width: 12,
+                      height: 12,
+                      borderRadius: 2,
+                      border: '1px solid rgba(255,255,255,0.3)',
+                      backgroundColor: s.selectedColor.startsWith('#') ? s.selectedColor : undefined,
+                    }}
+                    title={`${s.name}: ${s.selectedColor}`}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+          {diagnostics.length > 0 && (
+            <div style={{ marginTop: 4, fontSize: 9, lineHeight: 1.4 }}>
+              {diagnostics.map((d, i) => (
+                <div
+                  key={i}
+                  style={{ color: DIAGNOSTIC_COLORS[d.level] }}
+                  title={d.path ? `${d.code} — ${d.path}` : d.code}
+                >
+                  {d.level === 'info' ? '·' : '⚠'} {d.message}
+                </div>
+              ))}
+            </div>
+          )}
           {debugInfo && (
             <div style={{ marginTop: 4, fontSize: 9, color: 'rgba(74,222,128,0.6)', whiteSpace: 'pre-wrap' }}>
               {debugInfo}
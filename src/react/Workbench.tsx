@@ -98,6 +98,8 @@ export function ThreeMFWorkbench(props: ThreeMFViewerProps) {
       onSlotColorChange={props.onSlotColorChange}
       onPlateChange={props.onPlateChange}
       onExported={props.onExported}
+      useWorker={props.useWorker}
+      decrypt={props.decrypt}
     >
       <WorkbenchInner {...props} />
     </ThreeMFProvider>
@@ -1,6 +1,16 @@
 import { createContext, useContext, useReducer, useCallback, useRef, useEffect, type ReactNode } from 'react'
-import type { ParsedThreeMF, MaterialSlot, Plate, ColorOption, ViewerTheme } from '../core/types'
+import type {
+  ParsedThreeMF,
+  MaterialSlot,
+  Plate,
+  ColorOption,
+  ViewerTheme,
+  ParseProgress,
+  ThreeMFTriangleSet,
+  ThreeMFDecryptCallback,
+} from '../core/types'
 import { parse3MF, ThreeMFParseError } from '../core/parser'
+import { parse3MFInWorker } from '../core/workerClient'
 import { export3MF, download3MF } from '../core/exporter'
 import type { BufferGeometry } from 'three'
 
@@ -15,6 +25,8 @@ export interface ThreeMFState {
   originalFile: File | null
   /** Whether the parser is currently running. */
   loading: boolean
+  /** Progress of the running parse (null when idle). */
+  progress: ParseProgress | null
   /** Whether an export is currently running. */
   exporting: boolean
   /** Last parse error, if any. */
@@ -25,13 +37,22 @@ export interface ThreeMFState {
   materialSlots: MaterialSlot[]
   /** The user's single-colour pick (for non-multicolor models). */
   color: string
+  /**
+   * Colour overrides by triangle set name, drawn over the slot colours of
+   * every object with a set of that name. Exported as per-triangle
+   * properties on the set's triangles.
+   */
+  triangleSetColors: Record<string, string>
 }
 
 type Action =
   | { type: 'PARSE_START'; file: File }
+  | { type: 'PARSE_PROGRESS'; progress: ParseProgress }
   | { type: 'PARSE_SUCCESS'; payload: ParsedThreeMF }
   | { type: 'PARSE_ERROR'; payload: Error }
   | { type: 'SET_SLOT_COLOR'; slotId: string; color: string }
+  | { type: 'SET_SLOT_OPACITY'; slotId: string; opacity: number }
+  | { type: 'SET_TRIANGLE_SET_COLOR'; name: string; color: string | null }
   | { type: 'SET_PLATE'; plateId: number | null }
   | { type: 'SET_COLOR'; color: string }
   | { type: 'EXPORT_START' }
@@ -41,20 +62,24 @@ type Action =
 function reducer(state: ThreeMFState, action: Action): ThreeMFState {
   switch (action.type) {
     case 'PARSE_START':
-      return { ...state, loading: true, error: null, originalFile: action.file }
+      return { ...state, loading: true, error: null, originalFile: action.file, progress: { stage: 'unzip', fraction: 0 } }
+    case 'PARSE_PROGRESS':
+      return state.loading ? { ...state, progress: action.progress } : state
     case 'PARSE_SUCCESS': {
       const m = action.payload
       return {
         ...state,
         model: m,
         loading: false,
+        progress: null,
         error: null,
         materialSlots: m.materialSlots,
+        triangleSetColors: {},
         selectedPlateId: m.plates?.[0]?.id ?? null,
       }
     }
     case 'PARSE_ERROR':
-      return { ...state, loading: false, error: action.payload, model: null, materialSlots: [] }
+      return { ...state, loading: false, progress: null, error: action.payload, model: null, materialSlots: [] }
     case 'SET_SLOT_COLOR':
       return {
         ...state,
@@ -62,6 +87,17 @@ function reducer(state: ThreeMFState, action: Action): ThreeMFState {
           s.id === action.slotId ? { ...s, selectedColor: action.color } : s,
         ),
       }
+    case 'SET_SLOT_OPACITY':
+      return {
+        ...state,
+        materialSlots: state.materialSlots.map((s) =>
+          s.id === action.slotId ? { ...s, opacity: action.opacity } : s,
+        ),
+      }
+    case 'SET_TRIANGLE_SET_COLOR': {
+      const { [action.name]: _previous, ...rest } = state.triangleSetColors
+      return { ...state, triangleSetColors: action.color === null ? rest : { ...rest, [action.name]: action.color } }
+    }
     case 'SET_PLATE':
       return { ...state, selectedPlateId: action.plateId }
     case 'SET_COLOR':
@@ -81,11 +117,13 @@ const initialState: ThreeMFState = {
   model: null,
   originalFile: null,
   loading: false,
+  progress: null,
   exporting: false,
   error: null,
   selectedPlateId: null,
   materialSlots: [],
   color: '#f1f5f9',
+  triangleSetColors: {},
 }
 
 // ---------------------------------------------------------------------------
@@ -93,10 +131,14 @@ const initialState: ThreeMFState = {
 // ---------------------------------------------------------------------------
 
 export interface ThreeMFContextValue extends ThreeMFState {
-  /** Parse a .3MF file. */
+  /** Parse a .3MF file. Cancels a parse still in flight (which then resolves to `null`). */
   loadFile: (file: File) => Promise<ParsedThreeMF | null>
   /** Change the color of a material slot. */
   setSlotColor: (slotId: string, color: string) => void
+  /** Change the opacity (0–1) of a material slot. */
+  setSlotOpacity: (slotId: string, opacity: number) => void
+  /** Recolour every triangle set with this name; `null` restores the slot colours underneath. */
+  setTriangleSetColor: (name: string, color: string | null) => void
   /** Select a plate. */
   selectPlate: (plateId: number | null) => void
   /** Set the single colour for non-multicolor models. */
@@ -115,6 +157,7 @@ export interface ThreeMFContextValue extends ThreeMFState {
   plates: Plate[]
   geometries: BufferGeometry[]
   triangleMaterialMaps: Map<number, Map<number, string>> | undefined
+  triangleSets: Map<number, ThreeMFTriangleSet[]> | undefined
   objectIdToGeometryIndex: Map<number, number> | undefined
   compositeToGeometryMap: Map<number, number[]> | undefined
   plateObjectMap: Map<number, number[]> | undefined
@@ -138,6 +181,18 @@ export interface ThreeMFProviderProps {
   onPlateChange?: (plateId: number) => void
   /** Called after a successful export/download. */
   onExported?: (blob: Blob) => void
+  /**
+   * Parse in a Web Worker so large files don't block the UI. Pass a factory
+   * to supply the worker yourself (see `parse3MFInWorker`). Falls back to the
+   * main thread where `Worker` is unavailable. Default: false.
+   */
+  useWorker?: boolean | (() => Worker)
+  /**
+   * Decrypt Secure Content parts (see `Parse3MFOptions.decrypt`). Files are
+   * parsed on the main thread while it is set, since the callback can't be
+   * sent to a worker.
+   */
+  decrypt?: ThreeMFDecryptCallback
 }
 
 export function ThreeMFProvider({
@@ -147,19 +202,47 @@ export function ThreeMFProvider({
   onSlotColorChange,
   onPlateChange,
   onExported,
+  useWorker = false,
+  decrypt,
 }: ThreeMFProviderProps) {
   const [state, dispatch] = useReducer(reducer, initialState)
   const callbackRefs = useRef({ onParsed, onError, onSlotColorChange, onPlateChange, onExported })
   callbackRefs.current = { onParsed, onError, onSlotColorChange, onPlateChange, onExported }
+  const useWorkerRef = useRef(useWorker)
+  useWorkerRef.current = useWorker
+  const decryptRef = useRef(decrypt)
+  decryptRef.current = decrypt
+
+  const abortRef = useRef<AbortController | null>(null)
 
   const loadFile = useCallback(async (file: File): Promise<ParsedThreeMF | null> => {
+    // A new file supersedes whatever is still parsing
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+
     dispatch({ type: 'PARSE_START', file })
+    const options = {
+      signal: controller.signal,
+      onProgress: (stage: ParseProgress['stage'], fraction: number) => {
+        if (!controller.signal.aborted) dispatch({ type: 'PARSE_PROGRESS', progress: { stage, fraction } })
+      },
+    }
     try {
-      const result = await parse3MF(file)
+      const worker = useWorkerRef.current
+      const decrypt = decryptRef.current
+      const result =
+        worker && !decrypt && typeof Worker !== 'undefined'
+          ? await parse3MFInWorker(file, typeof worker === 'function' ? { ...options, createWorker: worker } : options)
+          : await parse3MF(file, { ...options, decrypt })
+      if (controller.signal.aborted) return null
+      abortRef.current = null
       dispatch({ type: 'PARSE_SUCCESS', payload: result })
       callbackRefs.current.onParsed?.(result)
       return result
     } catch (err) {
+      if (controller.signal.aborted) return null
+      abortRef.current = null
       const error = err instanceof Error ? err : new Error(String(err))
       dispatch({ type: 'PARSE_ERROR', payload: error })
       callbackRefs.current.onError?.(error)
@@ -167,10 +250,21 @@ export function ThreeMFProvider({
     }
   }, [])
 
+  // Don't let a parse outlive the provider
+  useEffect(() => () => abortRef.current?.abort(), [])
+
   const setSlotColor = useCallback((slotId: string, color: string) => {
     dispatch({ type: 'SET_SLOT_COLOR', slotId, color })
   }, [])
 
+  const setSlotOpacity = useCallback((slotId: string, opacity: number) => {
+    dispatch({ type: 'SET_SLOT_OPACITY', slotId, opacity: Math.min(1, Math.max(0, opacity)) })
+  }, [])
+
+  const setTriangleSetColor = useCallback((name: string, color: string | null) => {
+    dispatch({ type: 'SET_TRIANGLE_SET_COLOR', name, color })
+  }, [])
+
   // Fire callback on slot colour change
   useEffect(() => {
     if (state.materialSlots.length > 0) {
@@ -200,6 +294,7 @@ export function ThreeMFProvider({
       const blob = await export3MF({
         originalFile: s.originalFile,
         materialSlots: s.materialSlots,
+        triangleSetColors: s.triangleSetColors,
         colorOptions,
       })
       dispatch({ type: 'EXPORT_DONE' })
@@ -220,6 +315,7 @@ export function ThreeMFProvider({
       await download3MF({
         originalFile: s.originalFile,
         materialSlots: s.materialSlots,
+        triangleSetColors: s.triangleSetColors,
         colorOptions,
         filename,
       })
@@ -231,6 +327,8 @@ export function ThreeMFProvider({
   }, [])
 
   const reset = useCallback(() => {
+    abortRef.current?.abort()
+    abortRef.current = null
     dispatch({ type: 'RESET' })
   }, [])
 
@@ -238,14 +336,17 @@ export function ThreeMFProvider({
   const hasColorChanges = state.model
     ? state.materialSlots.some((slot) => {
         const original = state.model!.materialSlots.find((s) => s.id === slot.id)
-        return original ? original.selectedColor !== slot.selectedColor : false
-      })
+        if (!original) return false
+        return original.selectedColor !== slot.selectedColor || (original.opacity ?? 1) !== (slot.opacity ?? 1)
+      }) || Object.keys(state.triangleSetColors).length > 0
     : false
 
   const value: ThreeMFContextValue = {
     ...state,
     loadFile,
     setSlotColor,
+    setSlotOpacity,
+    setTriangleSetColor,
     selectPlate,
     setColor,
     exportFile,
@@ -256,6 +357,7 @@ export function ThreeMFProvider({
     plates: state.model?.plates ?? [],
     geometries: (state.model?.geometries ?? []) as BufferGeometry[],
     triangleMaterialMaps: state.model?.triangleMaterialMaps,
+    triangleSets: state.model?.triangleSets,
     objectIdToGeometryIndex: state.model?.objectIdToGeometryIndex,
     compositeToGeometryMap: state.model?.compositeToGeometryMap,
     plateObjectMap: state.model?.plateObjectMap,
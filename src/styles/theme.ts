@@ -25,9 +25,9 @@ export function resolveTheme(overrides?: ViewerTheme): Required<ViewerTheme> {
   return { ...DEFAULT_THEME, ...overrides }
 }
 
-/** Convert a named color or #hex string → Three.js int. */
+/** Convert a named color or #hex string → Three.js int (any alpha byte is ignored). */
 export function colorToHex(v: string): number {
-  if (v.startsWith('#')) return parseInt(v.slice(1), 16)
+  if (v.startsWith('#')) return parseInt(v.slice(1, 7), 16)
   const opt = DEFAULT_COLOR_OPTIONS.find((o) => o.name === v)
   return opt ? parseInt(opt.hex.slice(1), 16) : 0x3b82f6
 }
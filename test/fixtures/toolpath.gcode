@@ -0,0 +1,22 @@
+; HEADER_BLOCK_START
+; total layer number: 2
+; HEADER_BLOCK_END
+G28 ; home
+G90
+M82
+G92 E0
+G1 Z0.2 F600
+G0 X10 Y10 ; travel, no segment
+G1 X20 Y10 E1.5
+G1 X20 Y10 E2 ; retract/prime in place, no segment
+G1 X20 Y20 E1 ; E goes backwards, no segment
+T1
+G1 X10 Y20 E3.0 ; comment with G1 X99 E99
+G2 X10 Y0 I0 J-10 E4
+M83
+G91
+G1 X5 E0.5
+g1 x0 y5 e0.5
+G90
+G92 X0 Y0
+G1 X1 E0.2
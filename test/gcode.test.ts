@@ -0,0 +1,70 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { measureGcodeToolpath, parseGcodeToolpath } from '../src/core/gcode'
+
+const gcode = readFileSync(new URL('./fixtures/toolpath.gcode', import.meta.url), 'utf8')
+
+/** Segment `i` as [x0, y0, z0, x1, y1, z1], rounded to 0.001 mm. */
+function segment(positions: Float32Array, i: number): number[] {
+  return Array.from(positions.subarray(i * 6, i * 6 + 6), (v) => Math.round(v * 1000) / 1000)
+}
+
+describe('parseGcodeToolpath', () => {
+  const toolpath = parseGcodeToolpath(gcode)
+  const count = toolpath.tools.length
+  const arcEnd = count - 3
+
+  it('keeps extrusions only — not travel, in-place primes or retractions', () => {
+    expect(toolpath.truncated).toBe(false)
+    expect(toolpath.positions.length).toBe(count * 6)
+    expect(segment(toolpath.positions, 0)).toEqual([10, 10, 0.2, 20, 10, 0.2])
+    expect(segment(toolpath.positions, 1)).toEqual([20, 20, 0.2, 10, 20, 0.2])
+  })
+
+  it('follows tool changes', () => {
+    expect(toolpath.tools[0]).toBe(0)
+    expect(Array.from(toolpath.tools.subarray(1)).every((tool) => tool === 1)).toBe(true)
+  })
+
+  it('splits clockwise arcs into chords around the I/J centre', () => {
+    const chords = arcEnd - 2
+    expect(chords).toBe(Math.ceil((Math.PI * 10) / 0.5))
+    for (let i = 2; i < arcEnd; i++) {
+      const [x0, y0, , x1, y1] = segment(toolpath.positions, i)
+      expect(Math.hypot(x1 - 10, y1 - 10)).toBeCloseTo(10, 2)
+      expect(Math.hypot(x1 - x0, y1 - y0)).toBeLessThanOrEqual(0.5)
+      // Clockwise from the top of the circle: down the right-hand side
+      expect(x1).toBeGreaterThanOrEqual(10 - 1e-3)
+    }
+    expect(segment(toolpath.positions, arcEnd - 1).slice(3)).toEqual([10, 0, 0.2])
+  })
+
+  it('honours relative moves (G91, M83), lower-case words and G92 resets', () => {
+    expect(segment(toolpath.positions, arcEnd)).toEqual([10, 0, 0.2, 15, 0, 0.2])
+    expect(segment(toolpath.positions, arcEnd + 1)).toEqual([15, 0, 0.2, 15, 5, 0.2])
+    expect(segment(toolpath.positions, arcEnd + 2)).toEqual([0, 0, 0.2, 1, 0, 0.2])
+  })
+
+  it('ignores words inside comments', () => {
+    expect(Array.from(toolpath.positions).every((v) => v < 99)).toBe(true)
+  })
+
+  it('returns an empty toolpath for G-code without extrusions', () => {
+    const empty = parseGcodeToolpath('G28\nG1 X10 Y10 F3000\n')
+    expect(empty.positions.length).toBe(0)
+    expect(empty.tools.length).toBe(0)
+  })
+})
+
+describe('measureGcodeToolpath', () => {
+  it('measures the box around the extrusions', () => {
+    const size = measureGcodeToolpath(gcode)
+    expect(size.x).toBeCloseTo(20)
+    expect(size.y).toBeCloseTo(20)
+    expect(size.z).toBe(0)
+  })
+
+  it('is zero without extrusions', () => {
+    expect(measureGcodeToolpath('G1 X5 Y5\n')).toEqual({ x: 0, y: 0, z: 0 })
+  })
+})
@@ -0,0 +1,27 @@
+import { createHash } from 'node:crypto'
+import { describe, expect, it } from 'vitest'
+import { md5Hex } from '../src/core/md5'
+
+const reference = (bytes: Uint8Array) => createHash('md5').update(bytes).digest('hex')
+
+describe('md5Hex', () => {
+  it('matches the RFC 1321 test suite', () => {
+    const encoder = new TextEncoder()
+    expect(md5Hex(encoder.encode(''))).toBe('d41d8cd98f00b204e9800998ecf8427e')
+    expect(md5Hex(encoder.encode('abc'))).toBe('900150983cd24fb0d6963f7d28e17f72')
+    expect(md5Hex(encoder.encode('message digest'))).toBe('f96b697d7cb7938d525a2f31aaf161d0')
+  })
+
+  it('matches node:crypto around the padding boundaries', () => {
+    for (const length of [1, 55, 56, 57, 63, 64, 65, 119, 120, 1000]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff)
+      expect(md5Hex(bytes), `length ${length}`).toBe(reference(bytes))
+    }
+  })
+
+  it('hashes a view into a larger buffer by its own bytes only', () => {
+    const buffer = Uint8Array.from({ length: 100 }, (_, i) => i)
+    const view = buffer.subarray(10, 60)
+    expect(md5Hex(view)).toBe(reference(view))
+  })
+})
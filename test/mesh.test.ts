@@ -0,0 +1,69 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { BEAM_CAPS, MESH_READERS, type BallData, type BeamData, type TriangleData } from '../src/core/mesh'
+import { parseXml, type XmlElement } from '../src/core/xml'
+
+const doc = parseXml(readFileSync(new URL('./fixtures/mesh.model', import.meta.url), 'utf8'), { readers: MESH_READERS })
+
+function find(localName: string, root: XmlElement = doc.documentElement!): XmlElement[] {
+  const found: XmlElement[] = []
+  for (const child of root.children) {
+    if (child.localName === localName) found.push(child)
+    found.push(...find(localName, child))
+  }
+  return found
+}
+
+describe('mesh readers', () => {
+  it('reads vertices into a flat array, skipping comments', () => {
+    const [vertices] = find('vertices')
+    expect(Array.from(vertices.value as Float32Array)).toEqual([0, 0, 0, 10.5, 0, 0, 0, -20, 0, 0, 0, 7.25])
+    expect(vertices.children).toHaveLength(0)
+  })
+
+  it('reads triangle indices, pid/p1–p3 and paint attributes', () => {
+    const [triangles] = find('triangles')
+    const data = triangles.value as TriangleData
+    expect(Array.from(data.indices)).toEqual([0, 2, 1, 0, 1, 3, 1, 2, 3, 0, 3, 2])
+    expect(Array.from(data.pids!)).toEqual([-1, 1, -1, -1])
+    expect(Array.from(data.pindices!)).toEqual([-1, -1, -1, 1, -1, -1, 0, 1, 0, -1, -1, -1])
+    expect(data.paint).toEqual(new Map([[3, '4']]))
+    expect(data.dids).toBeUndefined()
+  })
+
+  it('reads displacement triangles with did/d1–d3', () => {
+    const triangles = find('triangles')[1]
+    expect(triangles.tagName).toBe('d:triangles')
+    expect(triangles.getAttribute('did')).toBe('4')
+    const data = triangles.value as TriangleData
+    expect(Array.from(data.indices)).toEqual([0, 1, 2, 2, 1, 0])
+    expect(Array.from(data.dids!)).toEqual([-1, -1])
+    expect(Array.from(data.dindices!)).toEqual([0, 1, 2, -1, -1, -1])
+    expect(data.pids).toBeUndefined()
+  })
+
+  it('reads beams and balls', () => {
+    const beams = find('beams')[0].value as BeamData
+    expect(Array.from(beams.indices)).toEqual([0, 1, 1, 3])
+    expect(Array.from(beams.radii)).toEqual([0.25, NaN, NaN, NaN])
+    expect(Array.from(beams.caps)).toEqual([BEAM_CAPS.indexOf('butt') + 1, 0, 0, 0])
+    expect(Array.from(beams.pids!)).toEqual([-1, 1])
+    expect(Array.from(beams.pindices!)).toEqual([-1, 1])
+
+    const balls = find('balls')[0].value as BallData
+    expect(Array.from(balls.indices)).toEqual([3])
+    expect(Array.from(balls.radii)).toEqual([1.5])
+  })
+
+  it('reads triangle set refs as inclusive ranges, dropping reversed ones', () => {
+    const [set] = find('triangleset')
+    expect(set.getAttribute('name')).toBe('Top')
+    expect(Array.from(set.value as Uint32Array)).toEqual([3, 3, 0, 1])
+  })
+
+  it('leaves the rest of the document to the tree builder', () => {
+    const [base] = find('base')
+    expect(base.getAttribute('name')).toBe('Red & Shiny')
+    expect(find('item')[0].getAttribute('objectid')).toBe('2')
+  })
+})
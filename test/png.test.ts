@@ -0,0 +1,137 @@
+import { deflateSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { decodePngChannel } from '../src/core/png'
+
+interface PngSpec {
+  width: number
+  height: number
+  bitDepth: number
+  colorType: number
+  /** Unfiltered rows of packed samples. */
+  rows: number[][]
+  /** Filter type per row (0 none, 1 sub, 2 up, 3 average, 4 Paeth); default none. */
+  filters?: number[]
+  palette?: number[]
+  transparency?: number[]
+  interlace?: number
+}
+
+function chunk(type: string, data: Uint8Array | number[]): Uint8Array {
+  const out = new Uint8Array(12 + data.length)
+  new DataView(out.buffer).setUint32(0, data.length)
+  out.set([...type].map((c) => c.charCodeAt(0)), 4)
+  out.set(data, 8)
+  return out // the decoder skips CRCs, so they are left zero
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+}
+
+/** Encode a PNG, applying each row's filter the way an encoder would. */
+function encodePng(spec: PngSpec): Uint8Array {
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[spec.colorType]!
+  const bpp = Math.max(1, (channels * spec.bitDepth) / 8)
+  const filtered: number[] = []
+  spec.rows.forEach((row, y) => {
+    const filter = spec.filters?.[y] ?? 0
+    const prev = spec.rows[y - 1]
+    filtered.push(filter)
+    row.forEach((value, x) => {
+      const a = x >= bpp ? row[x - bpp] : 0
+      const b = prev ? prev[x] : 0
+      const c = x >= bpp && prev ? prev[x - bpp] : 0
+      const predictor = [0, a, b, (a + b) >> 1, paeth(a, b, c)][filter]
+      filtered.push((value - predictor) & 0xff)
+    })
+  })
+
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, spec.width)
+  view.setUint32(4, spec.height)
+  header.set([spec.bitDepth, spec.colorType, 0, 0, spec.interlace ?? 0], 8)
+
+  const parts = [Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), chunk('IHDR', header)]
+  if (spec.palette) parts.push(chunk('PLTE', spec.palette))
+  if (spec.transparency) parts.push(chunk('tRNS', spec.transparency))
+  // Split the image data over two IDAT chunks, as encoders may
+  const idat = deflateSync(Uint8Array.from(filtered))
+  const half = idat.length >> 1
+  parts.push(chunk('IDAT', idat.subarray(0, half)), chunk('IDAT', idat.subarray(half)), chunk('IEND', []))
+
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    png.set(part, offset)
+    offset += part.length
+  }
+  return png
+}
+
+const rounded = (values: Float32Array, scale = 255) => Array.from(values, (v) => Math.round(v * scale))
+
+describe('decodePngChannel', () => {
+  it('reads 8-bit grey as R, G and B, with an opaque alpha', async () => {
+    const png = encodePng({ width: 2, height: 2, bitDepth: 8, colorType: 0, rows: [[0, 255], [51, 102]] })
+    const red = await decodePngChannel(png, 'R')
+    expect(red.width).toBe(2)
+    expect(red.height).toBe(2)
+    expect(rounded(red.values)).toEqual([0, 255, 51, 102])
+    expect(rounded((await decodePngChannel(png, 'B')).values)).toEqual([0, 255, 51, 102])
+    expect(Array.from((await decodePngChannel(png, 'A')).values)).toEqual([1, 1, 1, 1])
+  })
+
+  it('undoes every scanline filter', async () => {
+    const pixels = [
+      [10, 200, 30, 255, 40, 50, 60, 128, 250, 5, 90, 0],
+      [20, 190, 35, 250, 45, 60, 50, 100, 240, 15, 80, 10],
+      [30, 180, 45, 245, 55, 70, 40, 90, 230, 25, 70, 20],
+      [40, 170, 55, 240, 65, 80, 30, 80, 220, 35, 60, 30],
+      [50, 160, 65, 235, 75, 90, 20, 70, 210, 45, 50, 40],
+    ]
+    const png = encodePng({ width: 3, height: 5, bitDepth: 8, colorType: 6, rows: pixels, filters: [1, 2, 3, 4, 0] })
+    for (const [sample, channel] of (['R', 'G', 'B', 'A'] as const).entries()) {
+      const expected = pixels.flatMap((row) => row.filter((_, i) => i % 4 === sample))
+      expect(rounded((await decodePngChannel(png, channel)).values), channel).toEqual(expected)
+    }
+  })
+
+  it('reads 16-bit samples', async () => {
+    const png = encodePng({
+      width: 3,
+      height: 1,
+      bitDepth: 16,
+      colorType: 4,
+      rows: [[0, 0, 255, 255, 128, 0, 0, 255, 255, 255, 64, 0]],
+      filters: [1],
+    })
+    expect(rounded((await decodePngChannel(png, 'G')).values, 65535)).toEqual([0, 32768, 65535])
+    expect(rounded((await decodePngChannel(png, 'A')).values, 65535)).toEqual([65535, 255, 16384])
+  })
+
+  it('looks up palette colours and tRNS alpha in sub-byte images', async () => {
+    const png = encodePng({
+      width: 4,
+      height: 1,
+      bitDepth: 2,
+      colorType: 3,
+      rows: [[0b00011011]], // indices 0, 1, 2, 3
+      palette: [255, 0, 0, 0, 255, 0, 0, 0, 255, 9, 9, 9],
+      transparency: [0, 128],
+    })
+    expect(rounded((await decodePngChannel(png, 'R')).values)).toEqual([255, 0, 0, 9])
+    expect(rounded((await decodePngChannel(png, 'B')).values)).toEqual([0, 0, 255, 9])
+    expect(rounded((await decodePngChannel(png, 'A')).values)).toEqual([0, 128, 255, 255])
+  })
+
+  it('rejects data that is not a PNG, and interlaced images', async () => {
+    await expect(decodePngChannel(new TextEncoder().encode('GIF89a…'), 'R')).rejects.toThrow('Not a PNG image')
+    const interlaced = encodePng({ width: 1, height: 1, bitDepth: 8, colorType: 0, rows: [[0]], interlace: 1 })
+    await expect(decodePngChannel(interlaced, 'R')).rejects.toThrow('Interlaced')
+  })
+})
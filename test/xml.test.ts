@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { decodeEntities, isNameEnd, localPart, parseXml, readAttributes } from '../src/core/xml'
+
+describe('parseXml', () => {
+  it('builds the element tree with prefixed and local names', () => {
+    const doc = parseXml(
+      '<?xml version="1.0"?><m:model xmlns:m="urn:x"><m:item id="1"/><m:item id="2">text</m:item></m:model>',
+    )
+    const root = doc.documentElement!
+    expect(root.tagName).toBe('m:model')
+    expect(root.localName).toBe('model')
+    expect(root.children.map((c) => c.getAttribute('id'))).toEqual(['1', '2'])
+    expect(root.children[1].textContent).toBe('text')
+    expect(root.children[1].parentElement).toBe(root)
+    expect(root.getAttribute('missing')).toBeNull()
+  })
+
+  it('skips comments, processing instructions and doctypes, and keeps CDATA verbatim', () => {
+    const doc = parseXml(
+      '<!DOCTYPE a [<!ENTITY x "y">]><a><!-- <b/> --><?pi <c/> ?><![CDATA[<d> &amp;]]>&lt;e&gt;</a>',
+    )
+    const root = doc.documentElement!
+    expect(root.children).toHaveLength(0)
+    expect(root.textContent).toBe('<d> &amp;<e>')
+  })
+
+  it('reads attributes without spaces, with single quotes and with entities', () => {
+    const doc = parseXml(`<a x="1"y='2 &quot;q&quot;' z = "&#65;&#x42;&amp;" flag/>`)
+    const attrs = doc.documentElement!.attributes.map((a) => [a.name, a.value])
+    expect(attrs).toEqual([
+      ['x', '1'],
+      ['y', '2 "q"'],
+      ['z', 'AB&'],
+      ['flag', ''],
+    ])
+  })
+
+  it('closes unbalanced tags instead of failing', () => {
+    const doc = parseXml('<a><b><c></b><d/></a></stray>')
+    const root = doc.documentElement!
+    expect(root.children.map((c) => c.tagName)).toEqual(['b', 'd'])
+    expect(root.children[0].children.map((c) => c.tagName)).toEqual(['c'])
+  })
+
+  it('returns an empty document for text without elements', () => {
+    expect(parseXml('not xml').documentElement).toBeNull()
+  })
+
+  it('hands the content of reader elements to the reader', () => {
+    const doc = parseXml('<a><list><i/><i/></list><after/></a>', {
+      readers: {
+        list: (text, start) => {
+          const end = text.indexOf('</list>', start) + '</list>'.length
+          return { end, value: text.slice(start, end - '</list>'.length) }
+        },
+      },
+    })
+    const [list, after] = doc.documentElement!.children
+    expect(list.value).toBe('<i/><i/>')
+    expect(list.children).toHaveLength(0)
+    expect(after.tagName).toBe('after')
+  })
+})
+
+describe('xml helpers', () => {
+  it('decodes predefined and numeric entities and leaves unknown ones', () => {
+    expect(decodeEntities('&lt;&gt;&amp;&quot;&apos;&#169;&#x1F600;&nbsp;')).toBe(`<>&"'©😀&nbsp;`)
+  })
+
+  it('ends names at whitespace, /, > and =', () => {
+    expect([' ', '\t', '\n', '\r', '/', '>', '='].every((c) => isNameEnd(c.charCodeAt(0)))).toBe(true)
+    expect([':', '-', '_', '.', 'a'].some((c) => isNameEnd(c.charCodeAt(0)))).toBe(false)
+  })
+
+  it('strips namespace prefixes', () => {
+    expect(localPart('t:triangleset')).toBe('triangleset')
+    expect(localPart('vertex')).toBe('vertex')
+  })
+
+  it('reports the end of a start tag and whether it self-closes', () => {
+    const text = '<a k="v">rest'
+    const seen: string[] = []
+    expect(readAttributes(text, 2, (name, value) => seen.push(`${name}=${value}`))).toEqual({
+      end: 9,
+      selfClosing: false,
+    })
+    expect(seen).toEqual(['k=v'])
+    expect(readAttributes('<b />', 2, () => {})).toEqual({ end: 5, selfClosing: true })
+  })
+})
@@ -25,4 +25,13 @@ export default defineConfig([
     treeshake: true,
     splitting: false,
   },
+  // Web Worker entry (loaded by parse3MFInWorker via new URL('./worker.js', import.meta.url))
+  {
+    entry: { worker: 'src/core/worker.ts' },
+    format: ['esm'],
+    sourcemap: true,
+    external: ['three', 'jszip'],
+    treeshake: true,
+    splitting: false,
+  },
 ])